@@ -1,21 +1,103 @@
-import React, { useState, useCallback, useMemo, useRef } from 'react';
-import * as XLSX from 'xlsx';
-import { jsPDF } from 'jspdf';
-import { svg2pdf } from 'svg2pdf.js';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import SankeyDiagram, { SankeyDiagramRef } from './components/SankeyDiagram';
 import Controls from './components/Controls';
+import MassBalancePanel from './components/MassBalancePanel';
+import SmallMultiplesGrid from './components/SmallMultiplesGrid';
+import TimeSeriesPanel from './components/TimeSeriesPanel';
+import ColumnMappingDialog from './components/ColumnMappingDialog';
+import ScenarioSummary from './components/ScenarioSummary';
+import IndicatorsPanel from './components/IndicatorsPanel';
 import { processYearData } from './utils/processData';
-import { NdDataRow, VisualizationSettings, CustomLabel, SavedLayoutMap } from './types';
-import { AlertCircle, Upload } from 'lucide-react';
+import { ND_FLOW_MODEL, parseFlowModel } from './utils/flowModels';
+import { validateMassBalance, getBalancedNodeIds } from './utils/massBalance';
+import { getMaxNodeThroughput } from './utils/scale';
+import { getFlowSeries, getInflowSelections, getSelectionKey } from './utils/timeSeries';
+import { buildDifferenceGraph } from './utils/difference';
+import { aggregateRows, describeAggregation } from './utils/aggregate';
+import { addStockFlows, computeStockLevels, getStockSeries } from './utils/stock';
+import { getDestinationRegions } from './utils/destinations';
+import { DataSheet, DATA_FILE_ACCEPT, parseDataFile, readsAsText } from './utils/importData';
+import { getEdgeYears, getEdgeNodes, buildEdgeGraph, aggregateEdges } from './utils/edgeList';
+import { buildYearGraphs, compareScenarioFlows } from './utils/scenarios';
+import { computeIndicators, indicatorsToCsv } from './utils/indicators';
+import { getMappedUnits, convertGraphUnits, getUnitLabel } from './utils/units';
+import { getRangeBase } from './utils/uncertainty';
+import { composeSvgGrid } from './utils/svgExport';
+import { rasterizeSvg, renderPdf, canBeTransparent } from './utils/imageExport';
+import {
+  ExpectedField, MappingSuggestion, getExpectedFields, suggestMapping, needsReview, applyColumnMapping,
+  getHeaders, saveColumnMapping, loadColumnMapping, forgetColumnMapping, mappingFromSuggestion, mappingFits
+} from './utils/columnMapping';
+import { DEFAULT_SETTINGS, DEFAULT_EXPORT_SETTINGS } from './utils/settings';
+import { RASTER_EXTENSION } from './utils/imageExport';
+import { exportAllYearsZip, exportAllYearsPdf } from './utils/batchExport';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './utils/projectFile';
+import { downloadBlob } from './utils/download';
+import { saveSession, loadSession, clearSession } from './utils/sessionStore';
+import { NdDataRow, VisualizationSettings, CustomLabel, SavedLayoutMap, FlowModel, ProjectState, ExportSettings, GraphData, FlowSelection, YearAggregation, ColumnMapping, EdgeRow, MassUnit } from './types';
+import { AlertCircle, Upload, History, LayoutGrid, Square, GitCompare, Sigma, SquareSplitHorizontal, Gauge } from 'lucide-react';
+
+// Canvas size of the editor diagram; exports use the same geometry
+const DIAGRAM_WIDTH = 1200;
+const DIAGRAM_HEIGHT = 800;
+
+// editor: one year • grid: all years • difference: change between two years
+// • period: flows summed or averaged over a range of years
+// • scenarios: the loaded data next to a second dataset, same year and layout
+type ViewMode = 'editor' | 'grid' | 'difference' | 'period' | 'scenarios';
+
+// Uploaded wide rows before column mapping, with the mapping in use
+type MappedWorkbook = { name: string, rows: NdDataRow[], headers: string[], mapping: ColumnMapping };
+
+// File name without extension, as a scenario label
+const getFileStem = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// The comparison diagram carries no annotations of its own
+const NO_LABELS: CustomLabel[] = [];
+const noop = () => {};
 
 const App: React.FC = () => {
   const [data, setData] = useState<NdDataRow[]>([]);
+  // Edge-list imports replace the wide rows and skip the flow model
+  const [edgeData, setEdgeData] = useState<EdgeRow[]>([]);
+  const hasData = data.length > 0 || edgeData.length > 0;
   const [years, setYears] = useState<number[]>([]);
   const [selectedYear, setSelectedYear] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   
+  // Main area (see ViewMode); difference and period graphs are drawn in the editor
+  const [viewMode, setViewMode] = useState<ViewMode>('editor');
+  const [compareYears, setCompareYears] = useState<{ base: number, target: number } | null>(null);
+  const [period, setPeriod] = useState<YearAggregation | null>(null);
+
+  // Nodes/links charted over time in the companion panel
+  const [selectedFlows, setSelectedFlows] = useState<FlowSelection[]>([]);
+
+  // Indicators dashboard below the diagram
+  const [showIndicators, setShowIndicators] = useState(false);
+
+  // Year Playback State
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1500); // ms per year
+  const [tweenYears, setTweenYears] = useState(false); // Animate the next year change
+
+  // Autosave State: a found session waits for the user's restore decision
+  const [pendingRestore, setPendingRestore] = useState<{ savedAt: Date, state: ProjectState } | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  // Counts node/link moves in the editor, which live in the diagram, not in App state
+  const [layoutRevision, setLayoutRevision] = useState(0);
+
+  // Flow model interpreted by processYearData (defaults to the Nd chain)
+  const [flowModel, setFlowModel] = useState<FlowModel>(ND_FLOW_MODEL);
+
   // Layout Persistence State
   const [savedLayout, setSavedLayout] = useState<SavedLayoutMap | null>(null);
+  // Unsaved positions of a reopened project or session, handed to the editor
+  // once (as if moved there) and cleared after it has applied them
+  const [restoredLayout, setRestoredLayout] = useState<SavedLayoutMap | null>(null);
+  useEffect(() => {
+    if (restoredLayout) setRestoredLayout(null);
+  }, [restoredLayout]);
   
   // Custom Labels State
   const [customLabels, setCustomLabels] = useState<CustomLabel[]>([]);
@@ -23,183 +105,786 @@ const App: React.FC = () => {
   // Ref to trigger save from Controls
   const sankeyRef = useRef<SankeyDiagramRef>(null);
 
-  // Updated colors to match Figure S8: 
-  // Domestic = Green, Trade = Blue, Loss = Grey
-  const [settings, setSettings] = useState<VisualizationSettings>({
-    nodeWidth: 25,
-    nodePadding: 30,
-    fontSize: 12,
-    linkFontSize: 10, 
-    flowScale: 0.9, 
-    colorDomestic: '#74c476', // Light Green
-    colorTrade: '#2171b5',    // Strong Blue
-    colorLoss: '#969696',     // Grey
-    showLabels: true,
-    align: 'justify'
-  });
+  const [settings, setSettings] = useState<VisualizationSettings>(DEFAULT_SETTINGS);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [batchProgress, setBatchProgress] = useState<{ done: number, total: number } | null>(null);
+
+  // Last uploaded workbook before column mapping, so the mapping can be revised
+  const [workbook, setWorkbook] = useState<MappedWorkbook | null>(null);
+  // The header units go into the settings so that projects and the autosave,
+  // which keep the mapped rows but not the workbook, still read them
+  const selectWorkbook = useCallback((next: MappedWorkbook | null) => {
+    setWorkbook(next);
+    setSettings(prev => ({ ...prev, headerUnits: getMappedUnits(next?.mapping) }));
+  }, []);
+  const [mappingDialog, setMappingDialog] = useState<{
+    name: string,
+    rows: NdDataRow[],
+    headers: string[],
+    fields: ExpectedField[],
+    suggestion: Record<string, MappingSuggestion>,
+    initialMapping?: ColumnMapping,
+    sheet: string | null,
+    isNewFile: boolean,
+    scenario?: string // Label of the second scenario when mapping its sheet instead of the main data
+  } | null>(null);
+
+  // Data sheets of the last uploaded file (one per region or scenario).
+  // Switching sheets keeps the labels and the shared saved layout.
+  const [dataSheets, setDataSheets] = useState<{ fileName: string, sheets: DataSheet[] } | null>(null);
+  const [activeSheet, setActiveSheet] = useState<string | null>(null);
+
+  // Second dataset of the scenario view, drawn with the same flow model.
+  // scenarioSync carries node/link moves from one diagram to the other.
+  // headerUnits are the unit suffixes of B's own mapped headers (see getMappedUnits).
+  const [scenarioB, setScenarioB] = useState<{ label: string, data: NdDataRow[], edges: EdgeRow[], headerUnits: Record<string, MassUnit> } | null>(null);
+  const [scenarioSync, setScenarioSync] = useState<{ from: 'a' | 'b', layout: SavedLayoutMap } | null>(null);
+  const comparisonRef = useRef<SankeyDiagramRef>(null);
+
+  // Wide rows use the expected column names at this point (see applyColumnMapping);
+  // edge lists come without rows. A revised mapping of the same workbook keeps
+  // the labels and the selected year.
+  const loadData = useCallback((rows: NdDataRow[], edges: EdgeRow[] = [], isNewFile: boolean = true) => {
+    setData(rows);
+    setEdgeData(edges);
+    
+    // Extract unique years and sort
+    const availableYears: number[] = edges.length > 0
+      ? getEdgeYears(edges)
+      : Array.from(new Set(rows.map((r: NdDataRow) => Number(r.year)))).sort((a: number, b: number) => a - b);
+    setYears(availableYears);
+    setIsPlaying(false);
+    if (availableYears.length > 0) {
+      setSelectedYear(prev => !isNewFile && prev !== null && availableYears.includes(prev) ? prev : availableYears[0]);
+    }
+    setError(null);
+    if (isNewFile) setCustomLabels([]); // Reset labels on new file
+    // New data supersedes any pending autosave restore
+    setPendingRestore(null);
+    setAutosaveReady(true);
+  }, []);
+
+  // Match headers to the columns the flow model reads: a mapping saved for
+  // this workbook is reused, then the mapping of the previous sheet if it
+  // still fits; exact matches load directly, guesses are reviewed
+  const loadWideRows = useCallback((
+    name: string,
+    rows: NdDataRow[],
+    options: { sheet: string | null, isNewFile: boolean, previous?: ColumnMapping }
+  ) => {
+    const { sheet, isNewFile, previous } = options;
+    const headers = getHeaders(rows);
+    const fields = getExpectedFields(flowModel);
+    const known = loadColumnMapping(name, headers) || (previous && mappingFits(previous, headers) ? previous : null);
+    if (known) {
+      selectWorkbook({ name, rows, headers, mapping: known });
+      setActiveSheet(sheet);
+      loadData(applyColumnMapping(rows, known, fields), [], isNewFile);
+      return;
+    }
+
+    const suggestion = suggestMapping(fields, headers);
+    if (needsReview(fields, suggestion)) {
+      setMappingDialog({ name, rows, headers, fields, suggestion, sheet, isNewFile });
+      return;
+    }
+
+    const mapping = mappingFromSuggestion(fields, suggestion);
+    selectWorkbook({ name, rows, headers, mapping });
+    setActiveSheet(sheet);
+    loadData(applyColumnMapping(rows, mapping, fields), [], isNewFile);
+  }, [flowModel, loadData, selectWorkbook]);
+
+  const loadSheet = useCallback((fileName: string, sheet: DataSheet, isNewFile: boolean, previous?: ColumnMapping) => {
+    if (sheet.format === 'edges') {
+      selectWorkbook(null);
+      setActiveSheet(sheet.name);
+      loadData([], sheet.edges, isNewFile);
+    } else {
+      loadWideRows(fileName, sheet.rows, { sheet: sheet.name, isNewFile, previous });
+    }
+  }, [loadData, loadWideRows, selectWorkbook]);
+
+  const handleSheetChange = (name: string) => {
+    const sheet = dataSheets?.sheets.find(s => s.name === name);
+    if (!dataSheets || !sheet) return;
+    loadSheet(dataSheets.fileName, sheet, false, workbook?.mapping);
+  };
+
+  // Excel, CSV/TSV or JSON, in wide or edge-list format (see parseDataFile).
+  // Workbooks open on their first data sheet.
+  const loadDataFile = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const sheets = parseDataFile(file.name, evt.target?.result as string);
+        setDataSheets({ fileName: file.name, sheets });
+        setActiveSheet(null);
+        loadSheet(file.name, sheets[0], true);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error && err.message
+          ? `Error reading ${file.name}: ${err.message}`
+          : "Error parsing data file. Please ensure it matches the specified schema.");
+      }
+    };
+    if (readsAsText(file.name)) reader.readAsText(file);
+    else reader.readAsBinaryString(file);
+  }, [loadSheet]);
 
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    loadDataFile(file);
+    e.target.value = '';
+  }, [loadDataFile]);
+
+  // Files dropped onto the empty canvas load like uploads
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between child elements also fires dragleave
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setIsDragOver(false);
+  };
 
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadDataFile(file);
+  };
+
+  // Show the mapped rows (or edges) of scenario B next to the loaded data;
+  // `mapping` gives the header units B's columns are read in
+  const startScenario = (label: string, data: NdDataRow[], edges: EdgeRow[], mapping: ColumnMapping | null = null) => {
+    setScenarioB({ label, data, edges, headerUnits: getMappedUnits(mapping) });
+    // Start from the editor's current positions
+    const layout = sankeyRef.current?.getLayout();
+    setScenarioSync(layout ? { from: 'a', layout } : null);
+    setError(null);
+  };
+
+  // Wide sheets of scenario B are mapped like the main data: a mapping saved
+  // for the file, the mapping of scenario A if its headers fit, or the
+  // suggestion. Guessed matches are reviewed in the mapping dialog first, so
+  // that no flow is silently read from the wrong column.
+  const setScenarioFromSheet = (label: string, fileName: string, sheet: DataSheet) => {
+    if (sheet.format === 'edges') {
+      startScenario(label, [], sheet.edges);
+      return;
+    }
+    const headers = getHeaders(sheet.rows);
+    const fields = getExpectedFields(flowModel);
+    const previous = workbook?.mapping;
+    const known = loadColumnMapping(fileName, headers) || (previous && mappingFits(previous, headers) ? previous : null);
+    if (known) {
+      startScenario(label, applyColumnMapping(sheet.rows, known, fields), [], known);
+      return;
+    }
+
+    const suggestion = suggestMapping(fields, headers);
+    if (needsReview(fields, suggestion)) {
+      setMappingDialog({ name: fileName, rows: sheet.rows, headers, fields, suggestion, sheet: sheet.name, isNewFile: false, scenario: label });
+      return;
+    }
+    const mapping = mappingFromSuggestion(fields, suggestion);
+    startScenario(label, applyColumnMapping(sheet.rows, mapping, fields), [], mapping);
+  };
+
+  const handleScenarioSheet = (name: string) => {
+    const sheet = dataSheets?.sheets.find(s => s.name === name);
+    if (dataSheets && sheet) setScenarioFromSheet(name, dataSheets.fileName, sheet);
+  };
+
+  // A workbook opens on the sheet named like the current one, if any
+  const handleScenarioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
     const reader = new FileReader();
     reader.onload = (evt) => {
       try {
-        const bstr = evt.target?.result;
-        const wb = XLSX.read(bstr, { type: 'binary' });
-        const wsName = wb.SheetNames[0];
-        const ws = wb.Sheets[wsName];
-        
-        // Parse data
-        const jsonData = XLSX.utils.sheet_to_json<NdDataRow>(ws);
-        
-        // Validate basics
-        if (!jsonData || jsonData.length === 0) {
-          throw new Error("No data found in the Excel file.");
-        }
-        
-        // Check for 'year' column
-        if (!jsonData[0].hasOwnProperty('year')) {
-            throw new Error("Column 'year' missing. Please ensure the Excel follows the required format.");
-        }
-
-        setData(jsonData);
-        
-        // Extract unique years and sort
-        const availableYears: number[] = Array.from(new Set(jsonData.map((r: NdDataRow) => Number(r.year)))).sort((a: number, b: number) => a - b);
-        setYears(availableYears);
-        if (availableYears.length > 0) {
-          setSelectedYear(availableYears[0]);
-        }
-        setError(null);
-        setCustomLabels([]); // Reset labels on new file
+        const sheets = parseDataFile(file.name, evt.target?.result as string);
+        const sheet = sheets.find(s => s.name === activeSheet) || sheets[0];
+        const label = sheets.length > 1 ? `${getFileStem(file.name)} – ${sheet.name}` : getFileStem(file.name);
+        setScenarioFromSheet(label, file.name, sheet);
       } catch (err) {
         console.error(err);
-        setError("Error parsing Excel file. Please ensure it matches the specified schema.");
+        setError(`Error reading ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
       }
     };
-    reader.readAsBinaryString(file);
+    if (readsAsText(file.name)) reader.readAsText(file);
+    else reader.readAsBinaryString(file);
+    e.target.value = '';
+  };
+
+  const handleMappingApply = (mapping: ColumnMapping, remember: boolean) => {
+    if (!mappingDialog) return;
+    const { name, rows, headers, fields, sheet, isNewFile, scenario } = mappingDialog;
+    if (remember) saveColumnMapping(name, headers, mapping);
+    else forgetColumnMapping(name);
+    if (scenario !== undefined) {
+      setMappingDialog(null);
+      startScenario(scenario, applyColumnMapping(rows, mapping, fields), [], mapping);
+      return;
+    }
+    selectWorkbook({ name, rows, headers, mapping });
+    setActiveSheet(sheet);
+    setMappingDialog(null);
+    loadData(applyColumnMapping(rows, mapping, fields), [], isNewFile);
+  };
+
+  // Reopen the dialog for the loaded workbook with its current mapping
+  const handleEditMapping = () => {
+    if (!workbook) return;
+    const fields = getExpectedFields(flowModel);
+    setMappingDialog({
+      name: workbook.name,
+      rows: workbook.rows,
+      headers: workbook.headers,
+      fields,
+      suggestion: suggestMapping(fields, workbook.headers),
+      initialMapping: workbook.mapping,
+      sheet: activeSheet,
+      isNewFile: false
+    });
+  };
+
+  // Advance one year per tick while playing; stop at the last year
+  useEffect(() => {
+    if (!isPlaying || selectedYear === null) return;
+    const idx = years.indexOf(selectedYear);
+    if (idx < 0 || idx >= years.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setSelectedYear(years[idx + 1]), playbackSpeed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, selectedYear, years, playbackSpeed]);
+
+  const handleYearSelect = useCallback((year: number) => {
+    setIsPlaying(false);
+    setTweenYears(false);
+    setSelectedYear(year);
   }, []);
 
-  const processedGraphData = useMemo(() => {
-    if (!selectedYear || data.length === 0) return { nodes: [], links: [] };
-    const row = data.find(r => Number(r.year) === selectedYear);
-    if (!row) return { nodes: [], links: [] };
-    return processYearData(row);
-  }, [data, selectedYear]);
-
-  const handleDownloadJPG = () => {
-    const svgEl = document.querySelector('svg');
-    if (!svgEl) {
-        alert("Could not find diagram to save.");
-        return;
+  const handleYearScrub = useCallback((year: number) => {
+    setIsPlaying(false);
+    setTweenYears(true);
+    setSelectedYear(year);
+  }, []);
+
+  const handleOpenYearInEditor = useCallback((year: number) => {
+    handleYearSelect(year);
+    setViewMode('editor');
+  }, [handleYearSelect]);
+
+  // Entering difference mode compares the first year with the current one
+  // (or the second with the first when the first is selected)
+  const handleViewModeChange = useCallback((mode: ViewMode) => {
+    if (mode === 'difference' && years.length > 0) {
+      setCompareYears(prev => {
+        if (prev && years.includes(prev.base) && years.includes(prev.target)) return prev;
+        const target = selectedYear ?? years[years.length - 1];
+        return { base: target === years[0] && years.length > 1 ? years[1] : years[0], target };
+      });
     }
-    
-    // 1. Prepare SVG string with proper namespaces
-    const serializer = new XMLSerializer();
-    let source = serializer.serializeToString(svgEl);
+    // A period defaults to all loaded years
+    if (mode === 'period' && years.length > 0) {
+      setPeriod(prev => {
+        if (prev && years.includes(prev.from) && years.includes(prev.to)) return prev;
+        return { from: years[0], to: years[years.length - 1], method: 'sum' };
+      });
+    }
+    if (mode === 'difference' || mode === 'period') setIsPlaying(false);
+    // The comparison diagram starts from the editor's current positions
+    if (mode === 'scenarios') {
+      const layout = sankeyRef.current?.getLayout();
+      setScenarioSync(layout ? { from: 'a', layout } : null);
+    }
+    setViewMode(mode);
+  }, [years, selectedYear]);
+
+  const handleStep = useCallback((direction: 1 | -1) => {
+    if (selectedYear === null) return;
+    const idx = years.indexOf(selectedYear) + direction;
+    if (idx < 0 || idx >= years.length) return;
+    handleYearScrub(years[idx]);
+  }, [years, selectedYear, handleYearScrub]);
 
-    // Ensure namespace exists
-    if(!source.match(/^<svg[^>]+xmlns="http\:\/\/www\.w3\.org\/2000\/svg"/)){
-        source = source.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
+  const handlePlayToggle = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
     }
-    
-    // Ensure width and height are explicit for the canvas to know how big to draw
-    const svgRect = svgEl.getBoundingClientRect();
-    const width = svgRect.width || 1200;
-    const height = svgRect.height || 800;
-    
-    // Add explicit w/h if missing in string
-    if(!source.match(/^<svg[^>]+width="/)){
-         source = source.replace(/^<svg/, `<svg width="${width}" height="${height}"`);
+    // Restart from the first year when already at the end
+    if (selectedYear === years[years.length - 1]) {
+      setSelectedYear(years[0]);
     }
+    setTweenYears(true);
+    setIsPlaying(true);
+  }, [isPlaying, selectedYear, years]);
 
-    // 2. Create URL
-    const svgBlob = new Blob([source], { type: "image/svg+xml;charset=utf-8" });
-    const url = URL.createObjectURL(svgBlob);
-    
-    // 3. Draw to Canvas
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    
-    img.onload = () => {
-        const canvas = document.createElement("canvas");
-        const scale = 2; // Higher resolution
-        canvas.width = width * scale;
-        canvas.height = height * scale;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            URL.revokeObjectURL(url);
-            return;
-        }
-        
-        // Fill White Background
-        ctx.fillStyle = "#ffffff";
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Scale and Draw
-        ctx.scale(scale, scale);
-        ctx.drawImage(img, 0, 0, width, height); // Draw using original dimensions, context is scaled
-        
-        // 4. Download
-        try {
-            const jpgUrl = canvas.toDataURL("image/jpeg", 0.95);
-            const link = document.createElement("a");
-            link.href = jpgUrl;
-            link.download = `sankey_nd_flow_${selectedYear || 'data'}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-        } catch (e) {
-            console.error("Download failed", e);
-            alert("Failed to save image. Browser security might be blocking canvas export.");
-        }
-        
-        URL.revokeObjectURL(url);
+  const handleModelUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const model = parseFlowModel(JSON.parse(evt.target?.result as string));
+        setFlowModel(model);
+        setSavedLayout(null); // Saved node ids belong to the previous model
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(`Invalid flow model: ${err instanceof Error ? err.message : String(err)}`);
+      }
     };
+    reader.readAsText(file);
+    e.target.value = '';
+  }, []);
+
+  const handleModelReset = useCallback(() => {
+    setFlowModel(ND_FLOW_MODEL);
+    setSavedLayout(null);
+  }, []);
 
-    img.onerror = (e) => {
-        console.error("Image load failed", e);
-        alert("Failed to render SVG for download.");
-        URL.revokeObjectURL(url);
+  const handleSaveProject = () => {
+    if (!hasData) {
+      alert("Load data before saving a project.");
+      return;
+    }
+    // The on-screen layout goes along so that unsaved node moves are not lost
+    const json = serializeProject({
+      data,
+      edges: edgeData.length > 0 ? edgeData : undefined,
+      selectedYear,
+      savedLayout,
+      currentLayout: sankeyRef.current?.getLayout() || null,
+      customLabels,
+      settings,
+      flowModel
+    });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `sankey_nd_flow${PROJECT_FILE_EXTENSION}`);
+  };
+
+  // Replace the whole working state (project file or autosave restore)
+  const applyProject = useCallback((project: ProjectState) => {
+    const edges = project.edges || [];
+    const availableYears = edges.length > 0
+      ? getEdgeYears(edges)
+      : Array.from(new Set(project.data.map(r => Number(r.year)))).sort((a, b) => a - b);
+
+    setIsPlaying(false);
+    setFlowModel(project.flowModel);
+    setData(project.data);
+    setEdgeData(edges);
+    setWorkbook(null);
+    setDataSheets(null);
+    setActiveSheet(null);
+    setYears(availableYears);
+    setSelectedYear(
+      project.selectedYear !== null && availableYears.includes(project.selectedYear)
+        ? project.selectedYear
+        : availableYears[0] ?? null
+    );
+    setSavedLayout(project.savedLayout);
+    setRestoredLayout(project.currentLayout || null);
+    setCustomLabels(project.customLabels);
+    setSettings(project.settings);
+    setError(null);
+    setPendingRestore(null);
+    setAutosaveReady(true);
+  }, []);
+
+  const handleOpenProject = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        applyProject(parseProject(evt.target?.result as string));
+      } catch (err) {
+        console.error(err);
+        setError(`Could not open project: ${err instanceof Error ? err.message : String(err)}`);
+      }
     };
+    reader.readAsText(file);
+    e.target.value = '';
+  }, [applyProject]);
+
+  // --- Autosave (IndexedDB) ---
+  // On launch, offer to restore the last session. Autosave stays off until the
+  // user has answered, so the empty start state cannot overwrite it. Data
+  // loaded before the session is read answers for the user.
+  const hasDataRef = useRef(hasData);
+  hasDataRef.current = hasData;
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (hasDataRef.current) return;
+        if (session && (session.state.data.length > 0 || (session.state.edges?.length ?? 0) > 0)) {
+          setPendingRestore(session);
+        } else {
+          setAutosaveReady(true);
+        }
+      })
+      .catch(err => {
+        console.warn("Autosave unavailable", err);
+      });
+  }, []);
 
-    img.src = url;
+  const handleRestoreSession = () => {
+    if (pendingRestore) applyProject(pendingRestore.state);
   };
 
-  const handleDownloadPDF = async () => {
-    const svgEl = document.querySelector('svg');
-    if (!svgEl) {
+  const handleDiscardSession = () => {
+    setPendingRestore(null);
+    setAutosaveReady(true);
+    clearSession().catch(err => console.warn("Could not clear autosave", err));
+  };
+
+  useEffect(() => {
+    if (!autosaveReady || !hasData) return;
+    // Debounce bursts such as slider drags
+    const timer = setTimeout(() => {
+      const edges = edgeData.length > 0 ? edgeData : undefined;
+      // The on-screen layout, as in handleSaveProject
+      const currentLayout = sankeyRef.current?.getLayout() || null;
+      saveSession({ data, edges, selectedYear, savedLayout, currentLayout, customLabels, settings, flowModel })
+        .catch(err => console.warn("Autosave failed", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, hasData, data, edgeData, selectedYear, savedLayout, layoutRevision, customLabels, settings, flowModel]);
+
+  // Export destination regions across all years (per-destination breakdown)
+  // Both scenarios share the regions so that their colors match
+  const destinationRegions = useMemo(() => {
+    return getDestinationRegions(scenarioB ? [...data, ...scenarioB.data] : data, flowModel);
+  }, [data, scenarioB, flowModel]);
+  const exportBreakdown = settings.exportBreakdown;
+  const { dataUnit, columnUnits, headerUnits } = settings;
+  const processOptions = useMemo(() => ({
+    exportBreakdown,
+    regions: destinationRegions,
+    // Explicit overrides win over the unit suffixes of mapped headers
+    units: { default: dataUnit, columns: { ...headerUnits, ...columnUnits } }
+  }), [exportBreakdown, destinationRegions, dataUnit, columnUnits, headerUnits]);
+
+  // Scenario B reads its columns in the units of its own headers
+  const scenarioHeaderUnits = scenarioB?.headerUnits;
+  const scenarioProcessOptions = useMemo(() => ({
+    ...processOptions,
+    units: { default: dataUnit, columns: { ...scenarioHeaderUnits, ...columnUnits } }
+  }), [processOptions, dataUnit, columnUnits, scenarioHeaderUnits]);
+
+  // Display unit and basis; graphs are converted right after the flow model
+  const { unit, massBasis, contentShares } = settings;
+  const unitSettings = useMemo(() => ({ unit, massBasis, contentShares }), [unit, massBasis, contentShares]);
+  const unitLabel = getUnitLabel(unitSettings);
+
+  // Flow columns that can get a unit override (uncertainty columns follow theirs)
+  const dataColumns = useMemo(() => {
+    return getHeaders(data).filter(h => h !== 'year' && getRangeBase(h) === null);
+  }, [data]);
+
+  // Nodes of an edge list, shared by every year so that the layout carries over
+  const edgeNodes = useMemo(() => getEdgeNodes(edgeData), [edgeData]);
+
+  // Stages whose products carry Nd, for the product-mass basis
+  const productNodes = useMemo(() => {
+    return (edgeData.length > 0 ? edgeNodes : flowModel.nodes)
+      .filter(n => n.category === 'process' || n.category === 'end_of_life');
+  }, [edgeData, edgeNodes, flowModel]);
+
+  // Model graphs for every loaded year, sorted by year (kt of Nd content)
+  const modelYearGraphs = useMemo(() => {
+    return buildYearGraphs(data, edgeData, flowModel, processOptions);
+  }, [data, edgeData, flowModel, processOptions]);
+
+  // The same in the display unit and basis
+  const unitYearGraphs = useMemo(() => {
+    return modelYearGraphs.map(({ year, graph }) => ({ year, graph: convertGraphUnits(graph, unitSettings) }));
+  }, [modelYearGraphs, unitSettings]);
+
+  // In-use stock integrated over the sorted years
+  const stockLevels = useMemo(() => computeStockLevels(unitYearGraphs), [unitYearGraphs]);
+
+  // Graphs as drawn (incl. stock flows when enabled), for cross-year checks and scaling
+  const showInUseStock = settings.showInUseStock;
+  const allYearGraphs = useMemo(() => {
+    if (!showInUseStock) return unitYearGraphs;
+    return unitYearGraphs.map(({ year, graph }, i) => ({
+      year,
+      graph: addStockFlows(graph, stockLevels[i].levels, unitSettings)
+    }));
+  }, [unitYearGraphs, stockLevels, showInUseStock, unitSettings]);
+
+  const processedGraphData = useMemo(() => {
+    const frame = allYearGraphs.find(g => g.year === selectedYear);
+    return frame ? frame.graph : { nodes: [], links: [] };
+  }, [allYearGraphs, selectedYear]);
+
+  // --- Scenario comparison ---
+  const isScenarios = viewMode === 'scenarios';
+
+  const scenarioYearGraphs = useMemo(() => {
+    if (!scenarioB) return [];
+    const graphs = buildYearGraphs(scenarioB.data, scenarioB.edges, flowModel, scenarioProcessOptions)
+      .map(({ year, graph }) => ({ year, graph: convertGraphUnits(graph, unitSettings) }));
+    if (!showInUseStock) return graphs;
+    const levels = computeStockLevels(graphs);
+    return graphs.map(({ year, graph }, i) => ({ year, graph: addStockFlows(graph, levels[i].levels, unitSettings) }));
+  }, [scenarioB, flowModel, scenarioProcessOptions, unitSettings, showInUseStock]);
+
+  const scenarioGraph = useMemo(() => {
+    return scenarioYearGraphs.find(g => g.year === selectedYear)?.graph || null;
+  }, [scenarioYearGraphs, selectedYear]);
+
+  // Both diagrams use one value-per-pixel factor over every year of both scenarios
+  const scenarioMaxThroughput = useMemo(() => {
+    return getMaxNodeThroughput([...allYearGraphs, ...scenarioYearGraphs].map(g => g.graph));
+  }, [allYearGraphs, scenarioYearGraphs]);
+  const scenarioSettings = useMemo<VisualizationSettings>(() => ({ ...settings, fixedScale: true }), [settings]);
+
+  const scenarioFlows = useMemo(() => {
+    return scenarioGraph ? compareScenarioFlows(processedGraphData, scenarioGraph) : [];
+  }, [processedGraphData, scenarioGraph]);
+
+  const scenarioLabelA = dataSheets && dataSheets.sheets.length > 1 && activeSheet
+    ? activeSheet
+    : dataSheets ? getFileStem(dataSheets.fileName) : 'Scenario A';
+  const otherSheets = dataSheets ? dataSheets.sheets.map(s => s.name).filter(name => name !== activeSheet) : [];
+
+  // Editor moves are autosaved and, in the scenario view, mirrored to diagram B
+  const handleLayoutChangeA = useCallback((layout: SavedLayoutMap) => {
+    setLayoutRevision(r => r + 1);
+    setScenarioSync({ from: 'a', layout });
+  }, []);
+  // Moves in diagram B reach the editor through the sync, so they are autosaved too
+  const handleLayoutChangeB = useCallback((layout: SavedLayoutMap) => {
+    setLayoutRevision(r => r + 1);
+    setScenarioSync({ from: 'b', layout });
+  }, []);
+
+  // MFA indicators (loss, export and magnet-use shares) for every year
+  const indicators = useMemo(() => {
+    return showIndicators ? computeIndicators(modelYearGraphs, data) : [];
+  }, [showIndicators, modelYearGraphs, data]);
+
+  const handleExportIndicators = () => {
+    const stem = dataSheets ? getFileStem(dataSheets.fileName) : 'sankey_nd_flow';
+    downloadBlob(new Blob([indicatorsToCsv(indicators)], { type: 'text/csv' }), `${stem}_indicators.csv`);
+  };
+
+  // Cumulative stock per product, drawn as bars in the time-series view
+  const stockSeries = useMemo(() => {
+    return showInUseStock ? getStockSeries(unitYearGraphs, stockLevels) : [];
+  }, [showInUseStock, unitYearGraphs, stockLevels]);
+
+  const differenceGraph = useMemo(() => {
+    if (!compareYears) return null;
+    const base = allYearGraphs.find(g => g.year === compareYears.base);
+    const target = allYearGraphs.find(g => g.year === compareYears.target);
+    if (!base || !target) return null;
+    return buildDifferenceGraph(base.graph, target.graph, unit);
+  }, [allYearGraphs, compareYears, unit]);
+
+  const periodGraph = useMemo(() => {
+    if (!period) return null;
+    let graph: GraphData;
+    if (edgeData.length > 0) {
+      const edges = aggregateEdges(edgeData, period);
+      if (edges.length === 0) return null;
+      graph = buildEdgeGraph(edges, edges[0].year, edgeNodes, processOptions.units);
+    } else {
+      const row = aggregateRows(data, period);
+      if (!row) return null;
+      graph = processYearData(row, flowModel, processOptions);
+    }
+    graph = convertGraphUnits(graph, unitSettings);
+    if (!showInUseStock) return graph;
+    // Stock flows are the net additions over the period; the tooltip reports the stock at its end
+    const from = Math.min(period.from, period.to);
+    const to = Math.max(period.from, period.to);
+    const lastYear = Math.max(...years.filter(y => y >= from && y <= to));
+    return addStockFlows(graph, stockLevels.find(s => s.year === lastYear)?.levels, unitSettings);
+  }, [data, edgeData, edgeNodes, years, period, flowModel, processOptions, unitSettings, showInUseStock, stockLevels]);
+
+  const isDifference = viewMode === 'difference' && !!differenceGraph;
+  const isPeriod = viewMode === 'period' && !!periodGraph;
+  const displayGraph = isDifference ? differenceGraph! : isPeriod ? periodGraph! : processedGraphData;
+
+  const periodLabel = period ? describeAggregation(period) : '';
+  const caption = isDifference
+    ? `Change ${compareYears!.base} → ${compareYears!.target}`
+    : isPeriod ? periodLabel : undefined;
+
+  // File name stem for single-diagram exports
+  const exportName = isDifference
+    ? `sankey_nd_flow_${compareYears!.base}-${compareYears!.target}_change`
+    : isPeriod
+    ? `sankey_nd_flow_${Math.min(period!.from, period!.to)}-${Math.max(period!.from, period!.to)}_${period!.method}`
+    : isScenarios && scenarioGraph
+    ? `sankey_nd_flow_${selectedYear}_scenarios`
+    : `sankey_nd_flow_${selectedYear || 'data'}`;
+
+  // Single years and per-year means share the cross-year scale; totals and changes do not
+  const useSharedScale = !isDifference && !(isPeriod && period!.method === 'sum');
+
+  // Mass-balance check over every loaded year, on Nd content in kt (stock
+  // flows only touch in-use stock nodes, which are not checked)
+  const balanceIssues = useMemo(() => {
+    const balancedIds = edgeData.length > 0
+      ? getBalancedNodeIds(edgeNodes, edgeData)
+      : getBalancedNodeIds(flowModel.nodes, flowModel.links);
+    return modelYearGraphs.flatMap(({ year, graph }) => validateMassBalance(graph, year, balancedIds));
+  }, [modelYearGraphs, edgeData, edgeNodes, flowModel]);
+
+  // Reference throughput for the fixed value-per-pixel scale
+  const maxThroughput = useMemo(() => {
+    return getMaxNodeThroughput(allYearGraphs.map(g => g.graph));
+  }, [allYearGraphs]);
+
+  // Companion chart: each selected flow across all loaded years
+  const flowSeries = useMemo(() => {
+    return selectedFlows.map(selection => getFlowSeries(allYearGraphs, selection));
+  }, [selectedFlows, allYearGraphs]);
+
+  // Ids differ between flow models, so selections do not carry over
+  useEffect(() => {
+    setSelectedFlows([]);
+  }, [flowModel]);
+
+  // Plain click charts only the clicked flow (or clears it when clicked again),
+  // Shift/Ctrl/Cmd+click adds or removes it from the stack
+  const handleFlowClick = useCallback((selection: FlowSelection, additive: boolean) => {
+    const key = getSelectionKey(selection);
+    setSelectedFlows(prev => {
+      const exists = prev.some(s => getSelectionKey(s) === key);
+      if (additive) {
+        return exists ? prev.filter(s => getSelectionKey(s) !== key) : [...prev, selection];
+      }
+      return exists && prev.length === 1 ? [] : [selection];
+    });
+  }, []);
+
+  const handleRemoveFlow = useCallback((key: string) => {
+    setSelectedFlows(prev => prev.filter(s => getSelectionKey(s) !== key));
+  }, []);
+
+  const handleShowInflows = useCallback((key: string) => {
+    setSelectedFlows(prev => {
+      const index = prev.findIndex(s => getSelectionKey(s) === key);
+      const selection = prev[index];
+      if (!selection || selection.kind !== 'node') return prev;
+      const inflows = getInflowSelections(allYearGraphs, selection.nodeId)
+        .filter(inflow => !prev.some(s => getSelectionKey(s) === getSelectionKey(inflow)));
+      if (inflows.length === 0) return prev;
+      return [...prev.slice(0, index), ...inflows, ...prev.slice(index + 1)];
+    });
+  }, [allYearGraphs]);
+
+  const unbalancedNodeIds = useMemo(() => {
+    return new Set(balanceIssues.filter(i => i.year === selectedYear).map(i => i.nodeId));
+  }, [balanceIssues, selectedYear]);
+
+  // Both scenario diagrams side by side in one figure, or null outside the scenario view
+  const composeScenarioFigure = (background: string | null) => {
+    if (!isScenarios || !scenarioB || !scenarioGraph) return null;
+    const a = sankeyRef.current?.exportSVG();
+    const b = comparisonRef.current?.exportSVG();
+    if (!a || !b) return null;
+    return composeSvgGrid([
+      { title: `${scenarioLabelA} ${selectedYear}`, markup: a },
+      { title: `${scenarioB.label} ${selectedYear}`, markup: b }
+    ], 2, DIAGRAM_WIDTH, DIAGRAM_HEIGHT, background);
+  };
+
+  const handleDownloadImage = async () => {
+    try {
+        const transparent = exportSettings.transparent && canBeTransparent(exportSettings.rasterFormat);
+        const figure = composeScenarioFigure(transparent ? null : '#ffffff');
+        const blob = figure
+            ? await rasterizeSvg(figure.markup, figure.width, figure.height, exportSettings)
+            : await sankeyRef.current?.exportImage(exportSettings);
+        if (!blob) {
+            alert("Could not find diagram to save.");
+            return;
+        }
+        downloadBlob(blob, `${exportName}.${RASTER_EXTENSION[exportSettings.rasterFormat]}`);
+    } catch (e) {
+        console.error("Download failed", e);
+        alert("Failed to save image. Browser security might be blocking canvas export.");
+    }
+  };
+
+  const handleDownloadSVG = () => {
+    const markup = composeScenarioFigure('#ffffff')?.markup || sankeyRef.current?.exportSVG();
+    if (!markup) {
         alert("Could not find diagram to save.");
         return;
     }
+    downloadBlob(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }), `${exportName}.svg`);
+  };
 
+  const handleDownloadPDF = async () => {
     try {
-        const doc = new jsPDF({
-            orientation: 'landscape',
-            unit: 'pt',
-            format: 'a4'
-        });
-
-        const pageWidth = 841.89;
-        const pageHeight = 595.28;
-        const margin = 20;
-
-        await svg2pdf(svgEl as SVGElement, doc, {
-            x: margin,
-            y: margin,
-            width: pageWidth - (margin * 2),
-            height: pageHeight - (margin * 2)
-        });
-
-        doc.save(`sankey_nd_flow_${selectedYear || 'data'}.pdf`);
+        const figure = composeScenarioFigure('#ffffff');
+        const blob = figure
+            ? await renderPdf(figure.markup, figure.width, figure.height, exportSettings)
+            : await sankeyRef.current?.exportPDF(exportSettings);
+        if (!blob) {
+            alert("Could not find diagram to save.");
+            return;
+        }
+        downloadBlob(blob, `${exportName}.pdf`);
     } catch (e) {
         console.error("PDF Generation Error:", e);
         alert("Failed to generate PDF. Check console for details.");
     }
   };
 
+  const handleExportAllYears = async () => {
+    if (allYearGraphs.length === 0 || batchProgress) return;
+    const frames = allYearGraphs;
+    setBatchProgress({ done: 0, total: frames.length });
+
+    try {
+        const options = {
+            frames,
+            settings,
+            customLabels,
+            // Use the on-screen layout so unsaved node moves are included
+            savedLayout: sankeyRef.current?.getLayout() || savedLayout,
+            maxThroughput,
+            exportSettings,
+            width: DIAGRAM_WIDTH,
+            height: DIAGRAM_HEIGHT,
+            onProgress: (done: number, total: number) => setBatchProgress({ done, total })
+        };
+        if (exportSettings.batchFormat === 'pdf') {
+            downloadBlob(await exportAllYearsPdf(options), 'sankey_nd_flow_all_years.pdf');
+        } else {
+            downloadBlob(await exportAllYearsZip(options), 'sankey_nd_flow_all_years.zip');
+        }
+    } catch (e) {
+        console.error("Batch export failed", e);
+        alert("Failed to export all years. Check console for details.");
+    } finally {
+        setBatchProgress(null);
+    }
+  };
+
   const handleAddText = () => {
       const newLabel: CustomLabel = {
           id: Date.now().toString(),
@@ -207,6 +892,7 @@ const App: React.FC = () => {
           x: 550, // Center-ish
           y: 350
       };
+      sankeyRef.current?.checkpoint();
       setCustomLabels([...customLabels, newLabel]);
   };
 
@@ -225,30 +911,244 @@ const App: React.FC = () => {
       <Controls 
         years={years}
         selectedYear={selectedYear}
-        onYearChange={setSelectedYear}
+        onYearChange={handleYearSelect}
+        isPlaying={isPlaying}
+        onPlayToggle={handlePlayToggle}
+        onStep={handleStep}
+        onYearScrub={handleYearScrub}
+        playbackSpeed={playbackSpeed}
+        onPlaybackSpeedChange={setPlaybackSpeed}
         settings={settings}
         onSettingsChange={setSettings}
         onFileUpload={handleFileUpload}
-        onDownload={handleDownloadJPG}
+        flowModelName={flowModel.name}
+        isDefaultModel={flowModel === ND_FLOW_MODEL}
+        onModelUpload={handleModelUpload}
+        onModelReset={handleModelReset}
+        exportSettings={exportSettings}
+        onExportSettingsChange={setExportSettings}
+        onDownload={handleDownloadImage}
         onDownloadPDF={handleDownloadPDF}
+        onDownloadSVG={handleDownloadSVG}
+        onExportAllYears={handleExportAllYears}
+        isBatchExporting={batchProgress !== null}
         onAddText={handleAddText}
         onSaveLayoutClick={triggerSaveLayout}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        destinationRegions={destinationRegions}
+        dataColumns={dataColumns}
+        productNodes={productNodes}
+        onEditMapping={workbook ? handleEditMapping : undefined}
+        sheetNames={dataSheets && dataSheets.sheets.length > 1 ? dataSheets.sheets.map(s => s.name) : []}
+        activeSheet={activeSheet}
+        onSheetChange={handleSheetChange}
       />
+
+      {hasData && (
+        <MassBalancePanel
+          issues={balanceIssues}
+          unit={unit}
+          yearCount={years.length}
+          selectedYear={selectedYear}
+          onYearChange={handleYearSelect}
+        />
+      )}
       
-      <main className="flex-1 p-8 overflow-hidden flex flex-col items-center justify-center bg-slate-50 relative">
+      <main
+        className="flex-1 p-8 overflow-hidden flex flex-col items-center justify-center bg-slate-50 relative"
+        onDragOver={hasData ? undefined : handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={hasData ? undefined : handleDrop}
+      >
         
         {/* Header inside main area for context */}
         <div className="absolute top-6 left-8 z-10 pointer-events-none">
-            <h2 className="text-2xl font-bold text-slate-800 pointer-events-auto">
-                {selectedYear ? `Year: ${selectedYear}` : "No Data Loaded"}
-            </h2>
-            {selectedYear && (
+            <div className="flex items-center gap-4">
+                <h2 className="text-2xl font-bold text-slate-800 pointer-events-auto">
+                    {viewMode === 'grid' && years.length > 0
+                        ? `All Years: ${years[0]}–${years[years.length - 1]}`
+                        : isDifference
+                        ? `Change: ${compareYears!.base} → ${compareYears!.target}`
+                        : isPeriod
+                        ? `Period: ${periodLabel}`
+                        : isScenarios && selectedYear
+                        ? `Scenarios: ${selectedYear}`
+                        : selectedYear ? `Year: ${selectedYear}` : "No Data Loaded"}
+                </h2>
+                {activeSheet && dataSheets && dataSheets.sheets.length > 1 && (
+                    <span className="text-xs font-medium bg-slate-200 text-slate-700 rounded px-2 py-1" title="Workbook sheet">
+                        {activeSheet}
+                    </span>
+                )}
+                {hasData && (
+                    <div className="flex rounded-md border border-slate-300 overflow-hidden pointer-events-auto text-xs">
+                        <button
+                            onClick={() => handleViewModeChange('editor')}
+                            className={`flex items-center gap-1 px-2 py-1 ${viewMode === 'editor' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            <Square size={12} /> Editor
+                        </button>
+                        <button
+                            onClick={() => handleViewModeChange('grid')}
+                            className={`flex items-center gap-1 px-2 py-1 ${viewMode === 'grid' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            <LayoutGrid size={12} /> Grid
+                        </button>
+                        <button
+                            onClick={() => handleViewModeChange('difference')}
+                            className={`flex items-center gap-1 px-2 py-1 ${viewMode === 'difference' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            <GitCompare size={12} /> Difference
+                        </button>
+                        <button
+                            onClick={() => handleViewModeChange('period')}
+                            className={`flex items-center gap-1 px-2 py-1 ${viewMode === 'period' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            <Sigma size={12} /> Period
+                        </button>
+                        <button
+                            onClick={() => handleViewModeChange('scenarios')}
+                            className={`flex items-center gap-1 px-2 py-1 ${viewMode === 'scenarios' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            <SquareSplitHorizontal size={12} /> Scenarios
+                        </button>
+                    </div>
+                )}
+                {hasData && (
+                    <button
+                        onClick={() => setShowIndicators(!showIndicators)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-md border border-slate-300 pointer-events-auto text-xs ${showIndicators ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        title="Loss, export and magnet-use indicators over the years"
+                    >
+                        <Gauge size={12} /> Indicators
+                    </button>
+                )}
+                {isScenarios && (
+                    <div className="flex items-center gap-2 pointer-events-auto text-xs text-slate-600">
+                        <span>{scenarioLabelA} vs</span>
+                        {otherSheets.length > 0 && (
+                            <select
+                                value={scenarioB && otherSheets.includes(scenarioB.label) ? scenarioB.label : ''}
+                                onChange={(e) => handleScenarioSheet(e.target.value)}
+                                className="rounded border-slate-300 border p-1"
+                                title="Compare with another sheet of this workbook"
+                            >
+                                <option value="" disabled>Sheet…</option>
+                                {otherSheets.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                        )}
+                        <label className="flex items-center gap-1 cursor-pointer text-emerald-700 hover:underline" title="Load a second dataset">
+                            <Upload size={12} /> {scenarioB && !otherSheets.includes(scenarioB.label) ? scenarioB.label : 'Load file…'}
+                            <input type="file" accept={DATA_FILE_ACCEPT} onChange={handleScenarioUpload} className="hidden" />
+                        </label>
+                    </div>
+                )}
+                {viewMode === 'period' && period && (
+                    <div className="flex items-center gap-2 pointer-events-auto text-xs text-slate-600">
+                        <select
+                            value={period.from}
+                            onChange={(e) => setPeriod({ ...period, from: Number(e.target.value) })}
+                            className="rounded border-slate-300 border p-1"
+                            title="First year"
+                        >
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                        <span>–</span>
+                        <select
+                            value={period.to}
+                            onChange={(e) => setPeriod({ ...period, to: Number(e.target.value) })}
+                            className="rounded border-slate-300 border p-1"
+                            title="Last year"
+                        >
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                        <select
+                            value={period.method}
+                            onChange={(e) => setPeriod({ ...period, method: e.target.value as YearAggregation['method'] })}
+                            className="rounded border-slate-300 border p-1"
+                            title="Aggregation"
+                        >
+                            <option value="sum">Sum (cumulative)</option>
+                            <option value="mean">Mean per year</option>
+                        </select>
+                    </div>
+                )}
+                {isDifference && (
+                    <div className="flex items-center gap-2 pointer-events-auto text-xs text-slate-600">
+                        <select
+                            value={compareYears!.base}
+                            onChange={(e) => setCompareYears({ ...compareYears!, base: Number(e.target.value) })}
+                            className="rounded border-slate-300 border p-1"
+                            title="Base year"
+                        >
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                        <span>→</span>
+                        <select
+                            value={compareYears!.target}
+                            onChange={(e) => setCompareYears({ ...compareYears!, target: Number(e.target.value) })}
+                            className="rounded border-slate-300 border p-1"
+                            title="Target year"
+                        >
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                    </div>
+                )}
+            </div>
+            {isDifference && (
                 <p className="text-slate-500 text-sm mt-1">
-                   Drag nodes to move • Drag corners to resize • Hover nodes to adjust flows
+                   Link width = absolute change • Labels show {unitLabel} and % change{savedLayout ? '' : ' • Save a layout to pin node positions'}
+                </p>
+            )}
+            {isScenarios && (
+                <p className="text-slate-500 text-sm mt-1">
+                   Moving a node or link moves it in both diagrams • Both use one value scale
+                </p>
+            )}
+            {selectedYear && viewMode === 'editor' && (
+                <p className="text-slate-500 text-sm mt-1">
+                   Drag nodes to move • Drag corners to resize • Hover nodes to adjust flows • Click a flow to chart it over time
                 </p>
             )}
         </div>
 
+        {pendingRestore && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 bg-white border border-emerald-200 shadow-md text-slate-700 px-4 py-3 rounded flex items-center gap-3 text-sm">
+                <History size={18} className="text-emerald-600" />
+                <span>
+                    Restore your previous session from {pendingRestore.savedAt.toLocaleString()}?
+                </span>
+                <button
+                    onClick={handleRestoreSession}
+                    className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1 rounded text-xs font-medium"
+                >
+                    Restore
+                </button>
+                <button
+                    onClick={handleDiscardSession}
+                    className="text-slate-500 hover:text-slate-800 text-xs"
+                >
+                    Discard
+                </button>
+            </div>
+        )}
+
+        {batchProgress && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 bg-white border border-slate-200 shadow-md px-4 py-3 rounded w-72">
+                <div className="flex justify-between text-xs text-slate-600 mb-2">
+                    <span>Exporting all years…</span>
+                    <span>{batchProgress.done} / {batchProgress.total}</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded overflow-hidden">
+                    <div
+                        className="h-full bg-emerald-600 transition-all"
+                        style={{ width: `${(batchProgress.done / Math.max(1, batchProgress.total)) * 100}%` }}
+                    />
+                </div>
+            </div>
+        )}
+
         {error && (
             <div className="absolute top-6 right-8 z-10 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded flex items-center gap-2">
                 <AlertCircle size={20} />
@@ -256,30 +1156,138 @@ const App: React.FC = () => {
             </div>
         )}
 
-        {processedGraphData.nodes.length > 0 ? (
-          <div className="w-full h-full flex items-center justify-center pt-12 relative">
-            <SankeyDiagram 
-                ref={sankeyRef}
-                data={processedGraphData} 
+        {viewMode === 'grid' && allYearGraphs.length > 0 && (
+          <div className="w-full h-full pt-12 overflow-hidden">
+            <SmallMultiplesGrid
+                frames={allYearGraphs}
                 settings={settings}
-                customLabels={customLabels}
-                onUpdateLabels={setCustomLabels}
                 savedLayout={savedLayout}
-                onSaveLayout={handleSaveLayout}
-                width={1200} 
-                height={800}
+                maxThroughput={maxThroughput}
+                selectedYear={selectedYear}
+                onSelectYear={handleOpenYearInEditor}
+                exportSettings={exportSettings}
+                width={DIAGRAM_WIDTH}
+                height={DIAGRAM_HEIGHT}
             />
           </div>
+        )}
+
+        {/* The editor stays mounted in grid mode so unsaved edits and history survive */}
+        {displayGraph.nodes.length > 0 ? (
+          <div className={`w-full h-full flex flex-col items-center justify-center gap-4 pt-12 relative ${viewMode === 'grid' ? 'hidden' : ''}`}>
+            <div className={`w-full flex-1 min-h-0 overflow-auto flex items-center justify-center ${isScenarios ? 'gap-4' : ''}`}>
+              <div className={isScenarios ? 'flex-1 min-w-0' : 'contents'}>
+                {isScenarios && <div className="text-sm font-semibold text-slate-700 mb-1">{scenarioLabelA}</div>}
+                <SankeyDiagram 
+                    ref={sankeyRef}
+                    data={displayGraph} 
+                    settings={isScenarios ? scenarioSettings : settings}
+                    customLabels={customLabels}
+                    onUpdateLabels={setCustomLabels}
+                    savedLayout={savedLayout}
+                    onSaveLayout={handleSaveLayout}
+                    unbalancedNodeIds={isDifference || isPeriod ? undefined : unbalancedNodeIds}
+                    maxThroughput={isScenarios ? scenarioMaxThroughput : useSharedScale ? maxThroughput : undefined}
+                    caption={caption}
+                    transitionDuration={tweenYears ? Math.round(playbackSpeed * 0.8) : 0}
+                    selectedFlows={selectedFlows}
+                    onFlowClick={handleFlowClick}
+                    onLayoutChange={handleLayoutChangeA}
+                    syncedLayout={isScenarios && scenarioSync?.from === 'b' ? scenarioSync.layout : restoredLayout}
+                    width={DIAGRAM_WIDTH} 
+                    height={DIAGRAM_HEIGHT}
+                />
+              </div>
+              {isScenarios && (
+                <div className="flex-1 min-w-0">
+                  {scenarioB && scenarioGraph ? (
+                    <>
+                      <div className="text-sm font-semibold text-slate-700 mb-1">{scenarioB.label}</div>
+                      <SankeyDiagram
+                          ref={comparisonRef}
+                          data={scenarioGraph}
+                          settings={scenarioSettings}
+                          customLabels={NO_LABELS}
+                          onUpdateLabels={noop}
+                          savedLayout={savedLayout}
+                          onSaveLayout={handleSaveLayout}
+                          maxThroughput={scenarioMaxThroughput}
+                          selectedFlows={selectedFlows}
+                          onFlowClick={handleFlowClick}
+                          onLayoutChange={handleLayoutChangeB}
+                          historyControls={false}
+                          syncedLayout={scenarioSync?.from === 'a' ? scenarioSync.layout : null}
+                          width={DIAGRAM_WIDTH}
+                          height={DIAGRAM_HEIGHT}
+                      />
+                    </>
+                  ) : (
+                    <div className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center text-sm text-slate-500">
+                      {scenarioB
+                        ? `${scenarioB.label} has no data for ${selectedYear}.`
+                        : 'Choose another sheet or load a second file (e.g. a policy scenario) to compare.'}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+            {isScenarios && scenarioB && scenarioGraph && (
+              <ScenarioSummary
+                flows={scenarioFlows}
+                labelA={scenarioLabelA}
+                labelB={scenarioB.label}
+                year={selectedYear}
+                unit={unit}
+                unitLabel={unitLabel}
+              />
+            )}
+            {showIndicators && (
+              <IndicatorsPanel
+                indicators={indicators}
+                selectedYear={selectedYear}
+                onYearChange={handleYearSelect}
+                onExportCsv={handleExportIndicators}
+                onClose={() => setShowIndicators(false)}
+              />
+            )}
+            {flowSeries.length > 0 && (
+              <TimeSeriesPanel
+                series={flowSeries}
+                stockSeries={stockSeries}
+                unit={unit}
+                unitLabel={unitLabel}
+                selectedYear={selectedYear}
+                onYearChange={handleYearSelect}
+                onRemove={handleRemoveFlow}
+                onClear={() => setSelectedFlows([])}
+                onShowInflows={handleShowInflows}
+              />
+            )}
+          </div>
         ) : (
-          <div className="text-center text-slate-400 max-w-md">
-             <div className="mb-4 mx-auto w-16 h-16 border-2 border-dashed border-slate-300 rounded-lg flex items-center justify-center">
-                <Upload className="text-slate-300" />
+          <div className={`text-center text-slate-400 max-w-md rounded-xl p-8 border-2 border-dashed ${isDragOver ? 'border-emerald-400 bg-emerald-50' : 'border-transparent'}`}>
+             <div className={`mb-4 mx-auto w-16 h-16 border-2 border-dashed rounded-lg flex items-center justify-center ${isDragOver ? 'border-emerald-400' : 'border-slate-300'}`}>
+                <Upload className={isDragOver ? 'text-emerald-500' : 'text-slate-300'} />
              </div>
-             <p className="font-medium text-lg text-slate-600">Waiting for Data</p>
-             <p className="text-sm mt-2">Upload an Excel file (.xlsx) containing the Nd flow data columns to generate the diagram.</p>
+             <p className="font-medium text-lg text-slate-600">{isDragOver ? 'Drop to Load' : 'Waiting for Data'}</p>
+             <p className="text-sm mt-2">Upload or drop an Excel, CSV/TSV or JSON file with the Nd flow data columns to generate the diagram.</p>
+             <p className="text-xs mt-2">Any other material flow can be loaded as an edge list with the columns <span className="font-mono">year, source, target, value, type</span>.</p>
           </div>
         )}
       </main>
+
+      {mappingDialog && (
+        <ColumnMappingDialog
+          workbook={mappingDialog.scenario ?? mappingDialog.name}
+          fields={mappingDialog.fields}
+          headers={mappingDialog.headers}
+          suggestion={mappingDialog.suggestion}
+          initialMapping={mappingDialog.initialMapping}
+          model={flowModel}
+          onApply={handleMappingApply}
+          onCancel={() => setMappingDialog(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, FlowModel } from '../types';
+import { ExpectedField, MappingSuggestion, getUnusedHeaders } from '../utils/columnMapping';
+import { Columns2, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  workbook: string; // File name, used as the key of saved mappings
+  fields: ExpectedField[];
+  headers: string[];
+  suggestion: Record<string, MappingSuggestion>;
+  initialMapping?: ColumnMapping; // Current mapping when revising; defaults to the suggestion
+  model: FlowModel;
+  onApply: (mapping: ColumnMapping, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog: React.FC<Props> = ({ workbook, fields, headers, suggestion, initialMapping, model, onApply, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => {
+    if (initialMapping) return { ...initialMapping };
+    const initial: ColumnMapping = {};
+    fields.forEach(f => {
+      const header = suggestion[f.column]?.header;
+      if (header) initial[f.column] = header;
+    });
+    return initial;
+  });
+  const [remember, setRemember] = useState(true);
+
+  const unused = useMemo(() => getUnusedHeaders(headers, mapping, model), [headers, mapping, model]);
+  const unmappedCount = fields.filter(f => !mapping[f.column]).length;
+  const yearMapped = fields.every(f => !f.required || !!mapping[f.column]);
+
+  const handleChange = (column: string, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header) next[column] = header;
+      else delete next[column];
+      return next;
+    });
+  };
+
+  // Shows how the current choice relates to the automatic suggestion
+  const renderMatch = (field: ExpectedField) => {
+    const header = mapping[field.column];
+    if (!header) return <span className="text-slate-400">not mapped</span>;
+    const s = suggestion[field.column];
+    if (s?.header !== header) return <span className="text-slate-500">manual</span>;
+    if (s.exact) return <span className="text-emerald-700">exact</span>;
+    return <span className="text-amber-700">{Math.round(s.score * 100)}% match</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="p-5 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <Columns2 size={18} /> Map Columns
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">
+            <span className="font-mono">{workbook}</span>: choose which column holds each flow of the
+            {' '}{model.name} model. Suggestions ignore case, unit suffixes such as "(kt)" and known misspellings.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-400 text-left">
+                <th className="font-normal pb-2">Flow</th>
+                <th className="font-normal pb-2">Expected column</th>
+                <th className="font-normal pb-2">Workbook column</th>
+                <th className="font-normal pb-2 text-right">Match</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => (
+                <tr key={field.column} className="border-t border-slate-100">
+                  <td className="py-1.5 pr-2 text-slate-700 max-w-[12rem] truncate" title={field.label}>
+                    {field.label}{field.required && <span className="text-red-600"> *</span>}
+                  </td>
+                  <td className="py-1.5 pr-2 font-mono text-xs text-slate-500">{field.column}</td>
+                  <td className="py-1.5 pr-2">
+                    <select
+                      value={mapping[field.column] || ''}
+                      onChange={(e) => handleChange(field.column, e.target.value)}
+                      className={`w-full rounded text-xs border p-1 ${mapping[field.column] ? 'border-slate-300' : 'border-amber-300 bg-amber-50'}`}
+                    >
+                      <option value="">— not mapped —</option>
+                      {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-1.5 text-right text-xs whitespace-nowrap">{renderMatch(field)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <h3 className="text-xs font-semibold text-slate-700 uppercase tracking-wider mb-2">
+              Unused columns ({unused.length})
+            </h3>
+            {unused.length === 0 ? (
+              <p className="text-xs text-slate-400">Every column is used.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {unused.map(h => (
+                  <span key={h} className="text-xs font-mono bg-slate-100 text-slate-600 rounded px-2 py-0.5">{h}</span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-slate-200 flex items-center justify-between gap-4">
+          <div className="text-xs">
+            {!yearMapped ? (
+              <span className="flex items-center gap-1 text-red-600"><AlertTriangle size={14} /> Map the year column to continue.</span>
+            ) : unmappedCount > 0 ? (
+              <span className="flex items-center gap-1 text-amber-700"><AlertTriangle size={14} /> {unmappedCount} flow{unmappedCount === 1 ? '' : 's'} not mapped (shown as 0).</span>
+            ) : (
+              <span className="flex items-center gap-1 text-emerald-700"><CheckCircle2 size={14} /> All flows mapped.</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                className="rounded text-emerald-600 focus:ring-emerald-500"
+              />
+              Remember for this workbook
+            </label>
+            <button onClick={onCancel} className="text-sm text-slate-500 hover:text-slate-800 px-3 py-1.5">
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(mapping, remember)}
+              disabled={!yearMapped}
+              className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-sm font-medium px-4 py-1.5 rounded-md"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
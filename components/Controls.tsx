@@ -1,36 +1,100 @@
 import React from 'react';
-import { VisualizationSettings } from '../types';
-import { Settings2, Download, Upload, Type, Plus, Save, FileText } from 'lucide-react';
+import { VisualizationSettings, ExportSettings, MassUnit, MassBasis, ExportBreakdown, RasterFormat } from '../types';
+import { DATA_FILE_ACCEPT } from '../utils/importData';
+import { MASS_UNITS } from '../utils/units';
+import { Settings2, Download, Upload, Type, Plus, Save, FileText, GitBranch, Play, Pause, SkipBack, SkipForward, FolderOpen, FileJson, PenTool, Archive, Columns2, Sheet, X } from 'lucide-react';
 
 interface Props {
   years: number[];
   selectedYear: number | null;
   onYearChange: (year: number) => void;
+  sheetNames: string[]; // Data sheets of a multi-sheet workbook, empty otherwise
+  activeSheet: string | null;
+  onSheetChange: (name: string) => void;
+  isPlaying: boolean;
+  onPlayToggle: () => void;
+  onStep: (direction: 1 | -1) => void;
+  onYearScrub: (year: number) => void;
+  playbackSpeed: number;
+  onPlaybackSpeedChange: (ms: number) => void;
   settings: VisualizationSettings;
   onSettingsChange: (newSettings: VisualizationSettings) => void;
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onEditMapping?: () => void; // Set once a workbook is loaded
+  flowModelName: string;
+  isDefaultModel: boolean;
+  onModelUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onModelReset: () => void;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (newSettings: ExportSettings) => void;
   onDownload: () => void;
   onDownloadPDF: () => void;
+  onDownloadSVG: () => void;
+  destinationRegions: string[]; // Regions found in destination-specific export columns
+  dataColumns: string[]; // Flow columns of wide data, for unit overrides
+  productNodes: { id: string, name: string }[]; // Stages with an Nd share for the product basis
+  onExportAllYears: () => void;
+  isBatchExporting: boolean;
   onAddText: () => void;
   onSaveLayoutClick: () => void;
+  onSaveProject: () => void;
+  onOpenProject: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
 const Controls: React.FC<Props> = ({
   years,
   selectedYear,
   onYearChange,
+  sheetNames,
+  activeSheet,
+  onSheetChange,
+  isPlaying,
+  onPlayToggle,
+  onStep,
+  onYearScrub,
+  playbackSpeed,
+  onPlaybackSpeedChange,
   settings,
   onSettingsChange,
   onFileUpload,
+  onEditMapping,
+  flowModelName,
+  isDefaultModel,
+  onModelUpload,
+  onModelReset,
+  exportSettings,
+  onExportSettingsChange,
   onDownload,
   onDownloadPDF,
+  onDownloadSVG,
+  destinationRegions,
+  dataColumns,
+  productNodes,
+  onExportAllYears,
+  isBatchExporting,
   onAddText,
-  onSaveLayoutClick
+  onSaveLayoutClick,
+  onSaveProject,
+  onOpenProject
 }) => {
-  const handleSettingChange = (key: keyof VisualizationSettings, value: any) => {
+  const handleSettingChange = <K extends keyof VisualizationSettings>(key: K, value: VisualizationSettings[K]) => {
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  const handleExportSettingChange = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) => {
+    onExportSettingsChange({ ...exportSettings, [key]: value });
+  };
+
+  const setColumnUnit = (column: string, unit: MassUnit | null) => {
+    const columnUnits = { ...settings.columnUnits };
+    if (unit) columnUnits[column] = unit;
+    else delete columnUnits[column];
+    handleSettingChange('columnUnits', columnUnits);
+  };
+  const overriddenColumns = Object.keys(settings.columnUnits);
+
+  const rasterLabel = exportSettings.rasterFormat === 'jpeg' ? 'JPG' : exportSettings.rasterFormat.toUpperCase();
+
   return (
     <div className="bg-slate-50 border-r border-slate-200 w-80 flex-shrink-0 flex flex-col h-screen overflow-y-auto">
       <div className="p-6 border-b border-slate-200">
@@ -48,10 +112,10 @@ const Controls: React.FC<Props> = ({
         </h2>
         
         <label className="block">
-          <span className="sr-only">Choose excel file</span>
+          <span className="sr-only">Choose data file</span>
           <input 
             type="file" 
-            accept=".xlsx, .xls"
+            accept={DATA_FILE_ACCEPT}
             onChange={onFileUpload}
             className="block w-full text-sm text-slate-500
               file:mr-4 file:py-2 file:px-4
@@ -64,18 +128,120 @@ const Controls: React.FC<Props> = ({
           />
         </label>
 
+        {onEditMapping && (
+          <button
+            onClick={onEditMapping}
+            className="text-xs text-emerald-700 hover:underline flex items-center gap-1"
+          >
+            <Columns2 size={12} /> Map Columns
+          </button>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+            <GitBranch size={14} /> Flow Model
+          </label>
+          <div className="flex items-center justify-between text-xs text-slate-600">
+            <span className="truncate" title={flowModelName}>{flowModelName}</span>
+            {!isDefaultModel && (
+              <button onClick={onModelReset} className="text-emerald-700 hover:underline flex-shrink-0 ml-2">
+                Use built-in
+              </button>
+            )}
+          </div>
+          <label className="block">
+            <span className="sr-only">Choose flow model definition</span>
+            <input
+              type="file"
+              accept=".json"
+              onChange={onModelUpload}
+              className="block w-full text-xs text-slate-500
+                file:mr-3 file:py-1 file:px-3
+                file:rounded-full file:border-0
+                file:text-xs file:font-semibold
+                file:bg-slate-100 file:text-slate-700
+                hover:file:bg-slate-200
+                cursor-pointer
+              "
+            />
+          </label>
+        </div>
+
         {years.length > 0 && (
           <div className="space-y-2">
-            <label className="text-sm font-medium text-slate-700">Select Year</label>
-            <select 
-              value={selectedYear || ''} 
-              onChange={(e) => onYearChange(Number(e.target.value))}
-              className="w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm p-2 border"
-            >
-              {years.map(y => (
-                <option key={y} value={y}>{y}</option>
-              ))}
-            </select>
+            <div className="flex gap-2">
+              {sheetNames.length > 0 && (
+                <div className="flex-1 min-w-0 space-y-2">
+                  <label className="text-sm font-medium text-slate-700 flex items-center gap-1">
+                    <Sheet size={14} /> Sheet
+                  </label>
+                  <select
+                    value={activeSheet || ''}
+                    onChange={(e) => onSheetChange(e.target.value)}
+                    className="w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm p-2 border"
+                  >
+                    {sheetNames.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="flex-1 min-w-0 space-y-2">
+                <label className="text-sm font-medium text-slate-700">Select Year</label>
+                <select 
+                  value={selectedYear || ''} 
+                  onChange={(e) => onYearChange(Number(e.target.value))}
+                  className="w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm p-2 border"
+                >
+                  {years.map(y => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {years.length > 1 && (
+              <div className="space-y-2 pt-1">
+                <input
+                  type="range" min="0" max={years.length - 1} step="1"
+                  value={Math.max(0, years.indexOf(selectedYear ?? years[0]))}
+                  onChange={(e) => onYearScrub(years[Number(e.target.value)])}
+                  className="w-full accent-emerald-600"
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onStep(-1)}
+                    className="p-2 rounded-md border border-slate-300 bg-white hover:bg-slate-50 text-slate-700"
+                    title="Previous year"
+                  >
+                    <SkipBack size={14} />
+                  </button>
+                  <button
+                    onClick={onPlayToggle}
+                    className="flex-1 flex items-center justify-center gap-2 p-2 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-medium"
+                    title={isPlaying ? "Pause" : "Play through years"}
+                  >
+                    {isPlaying ? <><Pause size={14} /> Pause</> : <><Play size={14} /> Play</>}
+                  </button>
+                  <button
+                    onClick={() => onStep(1)}
+                    className="p-2 rounded-md border border-slate-300 bg-white hover:bg-slate-50 text-slate-700"
+                    title="Next year"
+                  >
+                    <SkipForward size={14} />
+                  </button>
+                </div>
+                <div>
+                  <label className="text-xs text-slate-500">Playback Speed ({(playbackSpeed / 1000).toFixed(1)}s per year)</label>
+                  <input
+                    type="range" min="300" max="4000" step="100"
+                    value={playbackSpeed}
+                    onChange={(e) => onPlaybackSpeedChange(Number(e.target.value))}
+                    className="w-full accent-emerald-600"
+                  />
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -103,6 +269,26 @@ const Controls: React.FC<Props> = ({
              />
           </div>
 
+          <div className="flex items-center gap-2">
+             <input 
+               type="checkbox" 
+               checked={settings.fixedScale}
+               onChange={(e) => handleSettingChange('fixedScale', e.target.checked)}
+               className="rounded text-emerald-600 focus:ring-emerald-500"
+             />
+             <label className="text-sm text-slate-700" title="Use one value-per-pixel factor for every year">Fixed Scale Across Years</label>
+          </div>
+
+          <div className="flex items-center gap-2">
+             <input 
+               type="checkbox" 
+               checked={settings.showInUseStock}
+               onChange={(e) => handleSettingChange('showInUseStock', e.target.checked)}
+               className="rounded text-emerald-600 focus:ring-emerald-500"
+             />
+             <label className="text-sm text-slate-700" title="Net additions (inflow minus exports and End of Life) of in-use products flow into an In-use Stock node; the cumulative stock is shown in its tooltip and the time-series chart">In-use Stock Accounting</label>
+          </div>
+
           <div>
             <label className="text-xs text-slate-500">Node Width ({settings.nodeWidth}px)</label>
             <input 
@@ -147,7 +333,7 @@ const Controls: React.FC<Props> = ({
             <label className="text-xs text-slate-500">Alignment</label>
             <select
               value={settings.align}
-              onChange={(e) => handleSettingChange('align', e.target.value)}
+              onChange={(e) => handleSettingChange('align', e.target.value as VisualizationSettings['align'])}
               className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
             >
               <option value="justify">Justify</option>
@@ -157,6 +343,23 @@ const Controls: React.FC<Props> = ({
             </select>
           </div>
 
+          {destinationRegions.length > 0 && (
+            <div>
+              <label className="text-xs text-slate-500" title={`Destinations: ${destinationRegions.join(', ')}`}>
+                Export Destinations ({destinationRegions.length})
+              </label>
+              <select
+                value={settings.exportBreakdown}
+                onChange={(e) => handleSettingChange('exportBreakdown', e.target.value as ExportBreakdown)}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+              >
+                <option value="none">Single Export node</option>
+                <option value="nodes">One node per destination</option>
+                <option value="bands">Export bar with sub-bands</option>
+              </select>
+            </div>
+          )}
+
           <div className="flex items-center gap-2">
              <input 
                type="checkbox" 
@@ -168,6 +371,99 @@ const Controls: React.FC<Props> = ({
           </div>
         </div>
 
+        {/* Units */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-slate-900 border-b pb-1">Units</h3>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-slate-500">Display Unit</label>
+              <select
+                value={settings.unit}
+                onChange={(e) => handleSettingChange('unit', e.target.value as MassUnit)}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+              >
+                {MASS_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-500">Basis</label>
+              <select
+                value={settings.massBasis}
+                onChange={(e) => handleSettingChange('massBasis', e.target.value as MassBasis)}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+              >
+                <option value="content">Nd content</option>
+                <option value="product">Product mass</option>
+              </select>
+            </div>
+          </div>
+
+          {settings.massBasis === 'product' && productNodes.length > 0 && (
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500" title="Product mass = Nd content ÷ Nd share. Imports use the share of the stage they enter.">
+                Nd Share of Product Mass (%)
+              </label>
+              {productNodes.map(n => (
+                <div key={n.id} className="flex items-center justify-between gap-2 text-xs text-slate-700">
+                  <span className="truncate">{n.name}</span>
+                  <input
+                    type="number" min="0.01" max="100" step="any"
+                    value={Math.round((settings.contentShares[n.id] ?? 1) * 10000) / 100}
+                    onChange={(e) => {
+                      const percent = Number(e.target.value);
+                      if (percent > 0 && percent <= 100) {
+                        handleSettingChange('contentShares', { ...settings.contentShares, [n.id]: percent / 100 });
+                      }
+                    }}
+                    className="w-20 rounded border-slate-300 border p-1 text-right"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs text-slate-500" title='Columns named with "(t)", "(kt)" or "(Mt)" keep their own unit'>Data Unit</label>
+            <select
+              value={settings.dataUnit}
+              onChange={(e) => handleSettingChange('dataUnit', e.target.value as MassUnit)}
+              className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+            >
+              {MASS_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+          </div>
+
+          {dataColumns.length > 0 && (
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500">Column Units</label>
+              {overriddenColumns.map(column => (
+                <div key={column} className="flex items-center gap-2 text-xs text-slate-700">
+                  <span className="flex-1 truncate" title={column}>{column}</span>
+                  <select
+                    value={settings.columnUnits[column]}
+                    onChange={(e) => setColumnUnit(column, e.target.value as MassUnit)}
+                    className="rounded border-slate-300 border p-1"
+                  >
+                    {MASS_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                  <button onClick={() => setColumnUnit(column, null)} title="Use the data unit" className="text-slate-400 hover:text-red-600">
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              <select
+                value=""
+                onChange={(e) => setColumnUnit(e.target.value, settings.dataUnit === 't' ? 'kt' : 't')}
+                className="w-full rounded text-sm border-slate-300 border p-1 text-slate-500"
+              >
+                <option value="" disabled>Override a column…</option>
+                {dataColumns.filter(c => !overriddenColumns.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
         {/* Annotations */}
         <div className="space-y-3">
             <h3 className="text-sm font-medium text-slate-900 border-b pb-1 flex items-center gap-2">
@@ -213,6 +509,19 @@ const Controls: React.FC<Props> = ({
                 </div>
              </div>
 
+             <div>
+                <label className="text-xs text-slate-500 block mb-1">Import</label>
+                <div className="flex items-center gap-2">
+                  <input 
+                    type="color" 
+                    value={settings.colorImport}
+                    onChange={(e) => handleSettingChange('colorImport', e.target.value)}
+                    className="h-8 w-8 rounded cursor-pointer border-0 p-0"
+                  />
+                  <span className="text-xs font-mono">{settings.colorImport}</span>
+                </div>
+             </div>
+
              <div>
                 <label className="text-xs text-slate-500 block mb-1">Loss</label>
                 <div className="flex items-center gap-2">
@@ -225,6 +534,117 @@ const Controls: React.FC<Props> = ({
                   <span className="text-xs font-mono">{settings.colorLoss}</span>
                 </div>
              </div>
+
+             <div>
+                <label className="text-xs text-slate-500 block mb-1">Recycled</label>
+                <div className="flex items-center gap-2">
+                  <input 
+                    type="color" 
+                    value={settings.colorRecycled}
+                    onChange={(e) => handleSettingChange('colorRecycled', e.target.value)}
+                    className="h-8 w-8 rounded cursor-pointer border-0 p-0"
+                  />
+                  <span className="text-xs font-mono">{settings.colorRecycled}</span>
+                </div>
+             </div>
+
+             <div>
+                <label className="text-xs text-slate-500 block mb-1">Stock</label>
+                <div className="flex items-center gap-2">
+                  <input 
+                    type="color" 
+                    value={settings.colorStock}
+                    onChange={(e) => handleSettingChange('colorStock', e.target.value)}
+                    className="h-8 w-8 rounded cursor-pointer border-0 p-0"
+                  />
+                  <span className="text-xs font-mono">{settings.colorStock}</span>
+                </div>
+             </div>
+          </div>
+        </div>
+
+        {/* Export */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-slate-900 border-b pb-1">Export</h3>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-slate-500">Image Format</label>
+              <select
+                value={exportSettings.rasterFormat}
+                onChange={(e) => handleExportSettingChange('rasterFormat', e.target.value as RasterFormat)}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+              >
+                <option value="jpeg">JPG</option>
+                <option value="png">PNG</option>
+                <option value="webp">WebP</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-500">Resolution</label>
+              <select
+                value={exportSettings.dpi}
+                onChange={(e) => handleExportSettingChange('dpi', Number(e.target.value))}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+              >
+                <option value={96}>96 dpi (1x)</option>
+                <option value={192}>192 dpi (2x)</option>
+                <option value={300}>300 dpi</option>
+                <option value={600}>600 dpi</option>
+              </select>
+            </div>
+          </div>
+
+          {exportSettings.rasterFormat !== 'jpeg' && (
+            <div className="flex items-center gap-2">
+              <input 
+                type="checkbox" 
+                checked={exportSettings.transparent}
+                onChange={(e) => handleExportSettingChange('transparent', e.target.checked)}
+                className="rounded text-emerald-600 focus:ring-emerald-500"
+              />
+              <label className="text-sm text-slate-700">Transparent Background</label>
+            </div>
+          )}
+
+          {exportSettings.rasterFormat !== 'png' && (
+            <div>
+              <label className="text-xs text-slate-500">Quality ({Math.round(exportSettings.quality * 100)}%)</label>
+              <input 
+                type="range" min="0.5" max="1" step="0.05"
+                value={exportSettings.quality}
+                onChange={(e) => handleExportSettingChange('quality', Number(e.target.value))}
+                className="w-full accent-emerald-600"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-slate-500">PDF Page</label>
+              <select
+                value={exportSettings.pdfPageSize}
+                onChange={(e) => handleExportSettingChange('pdfPageSize', e.target.value as ExportSettings['pdfPageSize'])}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1"
+              >
+                <option value="a4">A4</option>
+                <option value="a3">A3</option>
+                <option value="letter">Letter</option>
+                <option value="fit">Fit to Diagram</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-500">Orientation</label>
+              <select
+                value={exportSettings.pdfOrientation}
+                disabled={exportSettings.pdfPageSize === 'fit'}
+                onChange={(e) => handleExportSettingChange('pdfOrientation', e.target.value as ExportSettings['pdfOrientation'])}
+                className="w-full mt-1 rounded text-sm border-slate-300 border p-1 disabled:opacity-50"
+              >
+                <option value="landscape">Landscape</option>
+                <option value="portrait">Portrait</option>
+              </select>
+            </div>
           </div>
         </div>
       </div>
@@ -236,14 +656,31 @@ const Controls: React.FC<Props> = ({
         >
           <Save size={16} /> Save Layout
         </button>
+
+        <div className="flex gap-2">
+            <button 
+              onClick={onSaveProject}
+              className="flex-1 flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 py-2 px-2 rounded-md transition-colors text-sm font-medium"
+              title="Save data, layout, labels and settings to a .sankey.json file"
+            >
+              <FileJson size={16} /> Save Project
+            </button>
+            <label 
+              className="flex-1 flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 py-2 px-2 rounded-md transition-colors text-sm font-medium cursor-pointer"
+              title="Open a .sankey.json project file"
+            >
+              <FolderOpen size={16} /> Open
+              <input type="file" accept=".json" onChange={onOpenProject} className="hidden" />
+            </label>
+        </div>
         
         <div className="flex gap-2">
             <button 
               onClick={onDownload}
               className="flex-1 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 text-white py-2 px-2 rounded-md transition-colors text-sm font-medium"
-              title="Save as JPG"
+              title={`Save as ${rasterLabel}`}
             >
-              <Download size={16} /> JPG
+              <Download size={16} /> {rasterLabel}
             </button>
             <button 
               onClick={onDownloadPDF}
@@ -252,7 +689,37 @@ const Controls: React.FC<Props> = ({
             >
               <FileText size={16} /> PDF
             </button>
+            <button 
+              onClick={onDownloadSVG}
+              className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white py-2 px-2 rounded-md transition-colors text-sm font-medium"
+              title="Save as editable SVG (Illustrator / Inkscape)"
+            >
+              <PenTool size={16} /> SVG
+            </button>
         </div>
+
+        {years.length > 1 && (
+          <div className="flex gap-2">
+            <select
+              value={exportSettings.batchFormat}
+              onChange={(e) => handleExportSettingChange('batchFormat', e.target.value as ExportSettings['batchFormat'])}
+              className="flex-1 rounded text-xs border-slate-300 border p-1"
+              title="Packaging for all years"
+            >
+              <option value="pdf">Multi-page PDF</option>
+              <option value="zip-svg">ZIP of SVG</option>
+              <option value="zip-image">ZIP of {rasterLabel}</option>
+            </select>
+            <button 
+              onClick={onExportAllYears}
+              disabled={isBatchExporting}
+              className="flex-1 flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 py-2 px-2 rounded-md transition-colors text-xs font-medium disabled:opacity-50"
+              title="Export one figure per year"
+            >
+              <Archive size={14} /> All Years
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { IndicatorSeries } from '../types';
+import { getPmShareMismatches, PM_SHARE_TOLERANCE } from '../utils/indicators';
+import { Gauge, Download, X, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  indicators: IndicatorSeries[];
+  selectedYear: number | null;
+  onYearChange: (year: number) => void;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const SPARK_WIDTH = 160;
+const SPARK_HEIGHT = 28;
+const SPARK_PAD = 3;
+
+const formatShare = (value: number | null | undefined) =>
+  value === null || value === undefined ? '–' : `${(value * 100).toFixed(1)}%`;
+
+interface SparklineProps {
+  series: IndicatorSeries;
+  selectedYear: number | null;
+  onYearChange: (year: number) => void;
+}
+
+// Indicator over all years; gaps where it is undefined, a dot at the selected year
+const Sparkline: React.FC<SparklineProps> = ({ series, selectedYear, onYearChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const points = series.values.filter((v): v is { year: number, value: number } => v.value !== null);
+    if (!points.length) return;
+    const years = series.values.map(v => v.year);
+
+    const x = d3.scaleLinear()
+      .domain(years.length > 1 ? [years[0], years[years.length - 1]] : [years[0] - 1, years[0] + 1])
+      .range([SPARK_PAD, SPARK_WIDTH - SPARK_PAD]);
+    const [low, high] = d3.extent(points, p => p.value) as [number, number];
+    const y = d3.scaleLinear()
+      .domain(high - low > 1e-9 ? [low, high] : [low - 0.01, high + 0.01])
+      .range([SPARK_HEIGHT - SPARK_PAD, SPARK_PAD]);
+
+    const line = d3.line<{ year: number, value: number | null }>()
+      .defined(d => d.value !== null)
+      .x(d => x(d.year))
+      .y(d => y(d.value!));
+
+    svg.append("path")
+      .attr("d", line(series.values))
+      .attr("fill", "none")
+      .attr("stroke", "#059669")
+      .attr("stroke-width", 1.5);
+
+    svg.append("g")
+      .selectAll("circle")
+      .data(points)
+      .join("circle")
+      .attr("cx", d => x(d.year))
+      .attr("cy", d => y(d.value))
+      .attr("r", d => d.year === selectedYear ? 3 : 1.5)
+      .attr("fill", d => d.year === selectedYear ? "#0f172a" : "#059669")
+      .append("title")
+      .text(d => `${d.year}: ${formatShare(d.value)}`);
+
+    // Clicking the sparkline jumps to the nearest year
+    svg.on("click", (event) => {
+      const [mx] = d3.pointer(event);
+      const target = x.invert(mx);
+      const nearest = years.reduce((best, yr) => Math.abs(yr - target) < Math.abs(best - target) ? yr : best);
+      onYearChange(nearest);
+    });
+  }, [series, selectedYear, onYearChange]);
+
+  return <svg ref={svgRef} width={SPARK_WIDTH} height={SPARK_HEIGHT} className="cursor-pointer" />;
+};
+
+const IndicatorsPanel: React.FC<Props> = ({ indicators, selectedYear, onYearChange, onExportCsv, onClose }) => {
+  const mismatches = getPmShareMismatches(indicators);
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-sm border border-slate-200 p-3 flex-shrink-0 max-h-80 overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+          <Gauge size={14} /> Indicators
+        </h3>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onExportCsv}
+            disabled={!indicators.length}
+            className="flex items-center gap-1 text-xs text-emerald-700 hover:underline disabled:text-slate-300 disabled:no-underline"
+          >
+            <Download size={12} /> CSV
+          </button>
+          <button onClick={onClose} title="Hide indicators" className="text-slate-400 hover:text-slate-700">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+      {indicators.length === 0 ? (
+        <p className="text-xs text-slate-400">No indicator can be computed from the loaded flows.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="font-normal pb-1">Indicator</th>
+              <th className="font-normal pb-1">Trend</th>
+              <th className="font-normal pb-1 text-right">{selectedYear ?? ''}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {indicators.map(series => {
+              const current = series.values.find(v => v.year === selectedYear)?.value;
+              const flagged = series.key === 'wind-turbine-share' && selectedYear !== null && mismatches.includes(selectedYear);
+              return (
+                <tr key={series.key} className="border-t border-slate-100">
+                  <td className="py-1 pr-2 text-slate-700" title={series.description}>{series.label}</td>
+                  <td className="py-1 pr-2">
+                    <Sparkline series={series} selectedYear={selectedYear} onYearChange={onYearChange} />
+                  </td>
+                  <td className={`py-1 text-right font-mono ${flagged ? 'text-amber-700' : ''}`}>
+                    {flagged && (
+                      <span title={`Differs from the reported share by more than ${PM_SHARE_TOLERANCE * 100} percentage point`}>
+                        <AlertTriangle size={12} className="inline mr-1 align-[-2px]" />
+                      </span>
+                    )}
+                    {formatShare(current)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {mismatches.length > 0 && (
+        <p className="text-[10px] text-amber-700 mt-1">
+          The wind-turbine share differs from the reported share of PM in {mismatches.join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorsPanel;
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { MassBalanceIssue, MassUnit } from '../types';
+import { fromKt, formatMass } from '../utils/units';
+import { Scale, CheckCircle2, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface Props {
+  issues: MassBalanceIssue[]; // In kt of Nd content
+  unit: MassUnit; // Display unit
+  yearCount: number;
+  selectedYear: number | null;
+  onYearChange: (year: number) => void;
+}
+
+const MassBalancePanel: React.FC<Props> = ({ issues, unit, yearCount, selectedYear, onYearChange }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  // One digit more than flow labels: gaps are often small
+  const format = (kt: number) => formatMass(fromKt(kt, unit), unit, 1);
+
+  // Group issues by year, keeping years sorted
+  const byYear = useMemo(() => {
+    const groups = new Map<number, MassBalanceIssue[]>();
+    issues.forEach(issue => {
+      if (!groups.has(issue.year)) groups.set(issue.year, []);
+      groups.get(issue.year)!.push(issue);
+    });
+    return Array.from(groups.entries()).sort((a, b) => a[0] - b[0]);
+  }, [issues]);
+
+  if (collapsed) {
+    return (
+      <div className="bg-slate-50 border-r border-slate-200 w-10 flex-shrink-0 flex flex-col items-center pt-6 h-screen">
+        <button onClick={() => setCollapsed(false)} title="Show mass balance" className="text-slate-500 hover:text-slate-800">
+          <ChevronRight size={18} />
+        </button>
+        <Scale size={16} className={`mt-4 ${issues.length ? 'text-amber-600' : 'text-emerald-600'}`} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-50 border-r border-slate-200 w-72 flex-shrink-0 flex flex-col h-screen overflow-y-auto">
+      <div className="p-6 border-b border-slate-200 flex items-start justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-slate-900 uppercase tracking-wider flex items-center gap-2">
+            <Scale size={16} /> Mass Balance
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Inflow vs. outflow incl. losses and exports, in {unit} of Nd content. In-use stock nodes are not checked.
+          </p>
+        </div>
+        <button onClick={() => setCollapsed(true)} title="Hide" className="text-slate-500 hover:text-slate-800">
+          <ChevronLeft size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {byYear.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-emerald-700">
+            <CheckCircle2 size={16} /> All {yearCount} years balanced.
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-amber-700">
+            <AlertTriangle size={16} /> {issues.length} imbalance{issues.length === 1 ? '' : 's'} in {byYear.length} of {yearCount} years
+          </div>
+        )}
+
+        {byYear.map(([year, yearIssues]) => (
+          <div
+            key={year}
+            className={`rounded-md border bg-white ${year === selectedYear ? 'border-amber-400' : 'border-slate-200'}`}
+          >
+            <button
+              onClick={() => onYearChange(year)}
+              className="w-full text-left px-3 py-2 text-sm font-medium text-slate-800 border-b border-slate-100 hover:bg-slate-50"
+            >
+              {year}
+            </button>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-400">
+                  <th className="text-left font-normal px-3 py-1">Node</th>
+                  <th className="text-right font-normal px-1 py-1">In</th>
+                  <th className="text-right font-normal px-1 py-1">Out</th>
+                  <th className="text-right font-normal px-3 py-1">Gap</th>
+                </tr>
+              </thead>
+              <tbody>
+                {yearIssues.map(issue => (
+                  <tr key={issue.nodeId} className="text-slate-700">
+                    <td className="px-3 py-1 truncate max-w-[6rem]" title={issue.nodeName}>{issue.nodeName}</td>
+                    <td className="text-right px-1 py-1 font-mono">{format(issue.inflow)}</td>
+                    <td className="text-right px-1 py-1 font-mono">{format(issue.outflow)}</td>
+                    <td className="text-right px-3 py-1 font-mono text-red-600" title={`${(issue.relativeGap * 100).toFixed(1)} %`}>
+                      {issue.gap > 0 ? '+' : ''}{format(issue.gap)}
+                      <span className="block text-[10px] text-slate-400">{(issue.relativeGap * 100).toFixed(1)}%</span>
+                      {issue.gapRange && (
+                        <span className="block text-[10px] text-slate-400" title="Gap within the flow uncertainty ranges">
+                          {format(issue.gapRange.min)}…{format(issue.gapRange.max)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MassBalancePanel;
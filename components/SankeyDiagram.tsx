@@ -1,7 +1,17 @@
 import React, { useEffect, useRef, useState, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
 import * as d3 from 'd3';
 import { sankey as d3Sankey, sankeyLeft, sankeyJustify, sankeyRight, sankeyCenter } from 'd3-sankey';
-import { GraphData, VisualizationSettings, SankeyNode, SankeyLink, CustomLabel, SavedLayoutMap, SavedNodeLayout, SavedLinkLayout } from '../types';
+import { GraphData, VisualizationSettings, SankeyNode, SankeyLink, CustomLabel, SavedLayoutMap, SavedNodeLayout, SavedLinkLayout, ExportSettings, FlowSelection, MassUnit } from '../types';
+import { getScaleBarValue, formatScaleValue } from '../utils/scale';
+import { getSelectionKey } from '../utils/timeSeries';
+import { getRelativeChange } from '../utils/difference';
+import { STOCK_NODE_ID } from '../utils/stock';
+import { findBackEdges } from '../utils/cycles';
+import { formatWithRange } from '../utils/uncertainty';
+import { getUnitLabel, formatMass, getDisplayDigits, getMinLabelValue } from '../utils/units';
+import { buildCleanSvg } from '../utils/svgExport';
+import { rasterizeSvg, renderPdf, canBeTransparent } from '../utils/imageExport';
 
 interface Props {
   data: GraphData;
@@ -10,19 +20,74 @@ interface Props {
   onUpdateLabels: (labels: CustomLabel[]) => void;
   savedLayout: SavedLayoutMap | null;
   onSaveLayout: (layout: SavedLayoutMap) => void;
+  unbalancedNodeIds?: Set<string>; // Nodes failing the mass-balance check
+  maxThroughput?: number; // Largest node value across all years (fixed scale reference)
+  transitionDuration?: number; // ms to tween from the previous year's diagram (0 = jump)
+  onRendered?: () => void; // Called after the SVG has been (re)drawn
+  selectedFlows?: FlowSelection[]; // Highlighted nodes/links (others are dimmed)
+  onFlowClick?: (selection: FlowSelection, additive: boolean) => void; // additive = Shift/Ctrl/Cmd held
+  interactive?: boolean; // false = static preview (no editing, toolbar or shortcuts)
+  historyControls?: boolean; // false = no undo/redo toolbar or Ctrl+Z shortcuts (e.g. a linked second diagram)
+  caption?: string; // What the values represent (e.g. aggregation period); drawn into the SVG
+  onLayoutChange?: (layout: SavedLayoutMap) => void; // Called while the user moves nodes or links
+  syncedLayout?: SavedLayoutMap | null; // Positions from a linked diagram, applied without relayout
   width?: number;
   height?: number;
 }
 
 export interface SankeyDiagramRef {
     saveLayout: () => void;
+    getLayout: () => SavedLayoutMap | null; // Current (possibly unsaved) layout
+    checkpoint: () => void; // Record the current state before an external edit (e.g. adding a label)
+    undo: () => void;
+    redo: () => void;
+    exportSVG: () => string | null; // Clean, self-contained SVG markup
+    exportImage: (options: ExportSettings) => Promise<Blob | null>; // JPEG / PNG / WebP
+    exportPDF: (options: ExportSettings) => Promise<Blob | null>;
 }
 
-// Helper to generate a unique key for a link to save its state
+// Geometry of the last drawn frame, used as the start state of year transitions
+interface FrameSnapshot {
+    nodes: Map<string, { x0: number, y0: number, x1: number, y1: number }>;
+    links: Map<string, { source: { x: number, y: number }, target: { x: number, y: number }, width: number, value: number }>;
+}
+
+// Undo/redo entry: editable geometry plus annotations
+interface HistorySnapshot {
+    layout: SavedLayoutMap;
+    labels: CustomLabel[];
+}
+
+const MAX_HISTORY = 100;
+
+// Difference mode: diverging palette, red = decline, blue = growth.
+// Changes start at a visible tint instead of the near-white midpoint.
+const UNCHANGED_COLOR = '#94a3b8';
+const getChangeColor = (change: { base: number, target: number }, unit: MassUnit) => {
+    if (Math.abs(change.target - change.base) < getMinLabelValue(unit)) return UNCHANGED_COLOR;
+    const r = Math.max(-1, Math.min(1, getRelativeChange(change)));
+    return d3.interpolateRdBu(0.5 + Math.sign(r) * (0.15 + 0.35 * Math.abs(r)));
+};
+
+const formatChange = (change: { base: number, target: number }, unit: MassUnit) => {
+    const delta = change.target - change.base;
+    const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+    const percent = change.base > 0
+        ? `${sign}${Math.abs(getRelativeChange(change) * 100).toFixed(0)}%`
+        : 'new';
+    return `${sign}${formatMass(Math.abs(delta), unit)} (${percent})`;
+};
+
+// Export destinations (per-destination breakdown), by region index
+const REGION_COLORS = d3.schemeSet2;
+
+// Helper to generate a unique key for a link to save its state.
+// Sub-bands of one export link are told apart by their region.
 const getLinkKey = (link: SankeyLink) => {
     const sId = (link.source as SankeyNode).id;
     const tId = (link.target as SankeyNode).id;
-    return `${sId}-${tId}`;
+    const band = link.region !== undefined && !(link.target as SankeyNode).region ? `:${link.region}` : '';
+    return `${sId}-${tId}${band}`;
 };
 
 const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({ 
@@ -32,6 +97,17 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
     onUpdateLabels,
     savedLayout,
     onSaveLayout,
+    unbalancedNodeIds,
+    maxThroughput,
+    transitionDuration = 0,
+    onRendered,
+    selectedFlows,
+    onFlowClick,
+    interactive = true,
+    historyControls = true,
+    caption,
+    onLayoutChange,
+    syncedLayout,
     width = 1100, 
     height = 700 
 }, ref) => {
@@ -43,6 +119,29 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
   // Store manual adjustments for links
   const [linkOffsets, setLinkOffsets] = useState<Record<string, SavedLinkLayout>>({});
 
+  // Pixels per kt when the fixed cross-year scale is active
+  const [pxPerUnit, setPxPerUnit] = useState<number | null>(null);
+
+  // Year transitions: only the render following a data change is tweened
+  const prevFrameRef = useRef<FrameSnapshot | null>(null);
+  const animateNextRef = useRef(false);
+
+  // Kept out of effect deps so a new callback alone does not trigger a redraw
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
+  const onFlowClickRef = useRef(onFlowClick);
+  onFlowClickRef.current = onFlowClick;
+  const onLayoutChangeRef = useRef(onLayoutChange);
+  onLayoutChangeRef.current = onLayoutChange;
+
+  // Set by user edits so only those (not relayouts or synced updates) are reported
+  const layoutEditedRef = useRef(false);
+
+  // Undo/redo stacks; cleared whenever a new year/dataset is laid out
+  const undoStackRef = useRef<HistorySnapshot[]>([]);
+  const redoStackRef = useRef<HistorySnapshot[]>([]);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
   // Initialize Link Offsets from Saved Layout
   useEffect(() => {
       if (savedLayout?.links) {
@@ -78,7 +177,19 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
       .extent([[1, verticalMargin], [width - 1, height - verticalMargin]]);
 
     try {
-        const generated = sankeyGenerator({ nodes, links });
+        // d3-sankey rejects cycles: lay out the acyclic part, then add the
+        // back edges (recycling loops) with the same px-per-kt factor
+        const backEdges = findBackEdges(nodes.length, links);
+        const generated = sankeyGenerator({ nodes, links: links.filter((l, i) => !backEdges.has(i)) });
+        const ky = d3.max(generated.links, (l: SankeyLink) => l.value > 0 ? l.width! / l.value : 0) || 1;
+        links.forEach((l, i) => {
+            if (!backEdges.has(i)) return;
+            l.source = generated.nodes[l.source as number];
+            l.target = generated.nodes[l.target as number];
+            l.width = l.value * ky;
+            l.circular = true;
+            generated.links.push(l);
+        });
         
         // APPLY SAVED NODE LAYOUT
         if (savedLayout?.nodes) {
@@ -97,6 +208,13 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
             // Only if no saved layout exists
             const topBarY = 20;
             const topBarHeight = 20;
+
+            // Export and per-destination nodes share the top right bar span
+            const exportBars = generated.nodes
+                .filter((n: SankeyNode) => n.id === 'export' || n.region !== undefined)
+                .sort((a: SankeyNode, b: SankeyNode) => (a.regionIndex ?? -1) - (b.regionIndex ?? -1));
+            const barGap = 10;
+            const barSlot = (width / 2 - 100 - barGap * (exportBars.length - 1)) / Math.max(1, exportBars.length);
             const bottomBarY = height - 40;
             const bottomBarHeight = 20;
             
@@ -104,10 +222,18 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
                 const w = node.x1! - node.x0!;
                 const h = node.y1! - node.y0!;
                 
-                if (node.id === 'export') {
-                     // Top Right Trade Bar (Export)
-                    node.x0 = width / 2;
-                    node.x1 = width - 100;
+                if (node.id === 'export' || node.region !== undefined) {
+                     // Top Right Trade Bar (Export, or one slot per destination)
+                    const slot = exportBars.indexOf(node);
+                    node.x0 = width / 2 + slot * (barSlot + barGap);
+                    node.x1 = node.x0 + barSlot;
+                    node.y0 = topBarY;
+                    node.y1 = topBarY + topBarHeight;
+                    node.isRotated = true;
+                } else if (node.id === 'import') {
+                     // Top Left Trade Bar (Import)
+                    node.x0 = 100;
+                    node.x1 = width / 2 - 50;
                     node.y0 = topBarY;
                     node.y1 = topBarY + topBarHeight;
                     node.isRotated = true;
@@ -118,6 +244,12 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
                     node.y0 = bottomBarY;
                     node.y1 = bottomBarY + bottomBarHeight;
                     node.isRotated = true;
+                } else if (node.id === STOCK_NODE_ID) {
+                    // In-use stock: above End of Life, right of the products
+                    node.x0 = 1050;
+                    node.x1 = 1050 + w;
+                    node.y0 = height / 2 - 250;
+                    node.y1 = height / 2 - 250 + h;
                 } else if (node.id === 'eol') {
                     // End of Life Node: Positioned to the right of products
                     node.x0 = 1050;
@@ -172,12 +304,42 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
             });
         }
 
+        // APPLY FIXED SCALE
+        // Resize links and nodes to one factor derived from the largest node of all years,
+        // keeping each node centred where the layout put it.
+        if (settings.fixedScale && maxThroughput) {
+            const k = effectiveHeight / maxThroughput;
+            generated.links.forEach((l: SankeyLink) => {
+                l.width = l.value * k;
+            });
+            generated.nodes.forEach((node: SankeyNode) => {
+                const length = Math.max(1, (node.value || 0) * k);
+                if (node.isRotated) {
+                    const cx = (node.x0! + node.x1!) / 2;
+                    node.x0 = cx - length / 2;
+                    node.x1 = cx + length / 2;
+                } else {
+                    const cy = (node.y0! + node.y1!) / 2;
+                    node.y0 = cy - length / 2;
+                    node.y1 = cy + length / 2;
+                }
+            });
+            setPxPerUnit(k);
+        } else {
+            setPxPerUnit(null);
+        }
+
+        animateNextRef.current = transitionDuration > 0;
+        layoutEditedRef.current = false;
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        setHistoryState({ canUndo: false, canRedo: false });
         setGraph(generated);
     } catch (e) {
         console.error("Layout Error", e);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data, settings.flowScale]); 
+  }, [data, settings.flowScale, settings.fixedScale, maxThroughput]); 
 
   // --- 2. Live Update Layout (Settings Change) ---
   useEffect(() => {
@@ -236,8 +398,10 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
           if (saved?.sourceSide) {
               sourceSide = saved.sourceSide;
           } else {
-              // Heuristic
-              if (sourceIsHorizontal) {
+              // Heuristic; loops leave downwards to run beneath the diagram
+              if (l.circular) {
+                  sourceSide = 'bottom';
+              } else if (sourceIsHorizontal) {
                   sourceSide = (tC.y > sC.y) ? 'bottom' : 'top';
               } else {
                   sourceSide = (tC.x > sC.x) ? 'right' : 'left';
@@ -250,7 +414,9 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
               targetSide = saved.targetSide;
           } else {
                // Heuristic
-               if (targetIsHorizontal) {
+               if (l.circular) {
+                   targetSide = 'bottom';
+               } else if (targetIsHorizontal) {
                    targetSide = (sC.y > tC.y) ? 'bottom' : 'top';
                } else {
                    targetSide = (sC.x > tC.x) ? 'right' : 'left';
@@ -355,13 +521,39 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
           getCoords(n, b.inRight, 'inRight');
       });
 
+      // 3. Lanes for loops: just clear of the process nodes they span (the
+      // horizontal trade/loss bars are ignored), shortest loops innermost.
+      // Loops leaving from the top run above the diagram instead.
+      const blockers = nodes.filter(n => !n.isRotated);
+      let offsetBelow = 0;
+      let offsetAbove = 0;
+      links.filter(l => l.circular)
+        .sort((a, b) => Math.abs(a.sourceCoords!.x - a.targetCoords!.x) - Math.abs(b.sourceCoords!.x - b.targetCoords!.x))
+        .forEach(l => {
+            const s = l.sourceCoords!;
+            const t = l.targetCoords!;
+            const minX = Math.min(s.x, t.x);
+            const maxX = Math.max(s.x, t.x);
+            const spanned = blockers.filter(n => n.x1! >= minX && n.x0! <= maxX);
+            const lw = l.width || 1;
+            if (s.side === 'top') {
+                const top = Math.min(s.y, t.y, ...spanned.map(n => n.y0!));
+                l.loopY = top - 25 - offsetAbove - lw / 2;
+                offsetAbove += lw + 8;
+            } else {
+                const bottom = Math.max(s.y, t.y, ...spanned.map(n => n.y1!));
+                l.loopY = bottom + 25 + offsetBelow + lw / 2;
+                offsetBelow += lw + 8;
+            }
+        });
+
       return { nodes, links };
   }, [graph, linkOffsets]);
 
 
   // --- 4. Handler: Save Layout ---
-  const handleSaveClick = () => {
-      if (!graph) return;
+  const collectLayout = (): SavedLayoutMap | null => {
+      if (!graph) return null;
       const nodesMap: Record<string, SavedNodeLayout> = {};
       graph.nodes.forEach((n: SankeyNode) => {
           // Use ID instead of Name for saving to handle duplicates like 'Export'
@@ -377,13 +569,159 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
       // Save link offsets
       const linksMap = { ...linkOffsets };
 
-      onSaveLayout({ nodes: nodesMap, links: linksMap });
+      return { nodes: nodesMap, links: linksMap };
+  };
+
+  // --- 4b. Undo / Redo ---
+  const takeSnapshot = (): HistorySnapshot | null => {
+      const layout = collectLayout();
+      if (!layout) return null;
+      // Labels are mutated in place while dragging, so copy them
+      return { layout, labels: customLabels.map(l => ({ ...l })) };
+  };
+
+  const syncHistoryState = () => {
+      setHistoryState({
+          canUndo: undoStackRef.current.length > 0,
+          canRedo: redoStackRef.current.length > 0
+      });
+  };
+
+  const checkpoint = () => {
+      layoutEditedRef.current = true;
+      const snapshot = takeSnapshot();
+      if (!snapshot) return;
+      undoStackRef.current = [...undoStackRef.current, snapshot].slice(-MAX_HISTORY);
+      redoStackRef.current = [];
+      syncHistoryState();
+  };
+
+  const applySnapshot = (snapshot: HistorySnapshot) => {
+      layoutEditedRef.current = true;
+      if (graph) {
+          graph.nodes.forEach((n: SankeyNode) => {
+              const saved = snapshot.layout.nodes[n.id];
+              if (saved) {
+                  n.x0 = saved.x0;
+                  n.x1 = saved.x1;
+                  n.y0 = saved.y0;
+                  n.y1 = saved.y1;
+                  n.isRotated = saved.isRotated;
+              }
+          });
+          setGraph({ ...graph });
+      }
+      setLinkOffsets(snapshot.layout.links);
+      onUpdateLabels(snapshot.labels);
+  };
+
+  const undo = () => {
+      const snapshot = undoStackRef.current[undoStackRef.current.length - 1];
+      const current = takeSnapshot();
+      if (!snapshot || !current) return;
+      undoStackRef.current = undoStackRef.current.slice(0, -1);
+      redoStackRef.current = [...redoStackRef.current, current];
+      applySnapshot(snapshot);
+      syncHistoryState();
+  };
+
+  const redo = () => {
+      const snapshot = redoStackRef.current[redoStackRef.current.length - 1];
+      const current = takeSnapshot();
+      if (!snapshot || !current) return;
+      redoStackRef.current = redoStackRef.current.slice(0, -1);
+      undoStackRef.current = [...undoStackRef.current, current];
+      applySnapshot(snapshot);
+      syncHistoryState();
+  };
+
+  // Keyboard shortcuts read the latest closures through a ref
+  const historyActionsRef = useRef({ undo, redo });
+  historyActionsRef.current = { undo, redo };
+
+  useEffect(() => {
+      // Only one diagram on the page may own the window shortcuts
+      if (!interactive || !historyControls) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              historyActionsRef.current.undo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              historyActionsRef.current.redo();
+          }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [interactive, historyControls]);
+
+  // --- 4c. Linked diagrams ---
+  // Report user edits to the layout; apply positions coming from the partner
+  useEffect(() => {
+      if (!layoutEditedRef.current || !onLayoutChangeRef.current) return;
+      layoutEditedRef.current = false;
+      const layout = collectLayout();
+      if (layout) onLayoutChangeRef.current(layout);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [graph, linkOffsets]);
+
+  // Functional update: on mount or with new data it lands on the fresh layout.
+  // Only positions and orientation are taken over; each node keeps the length
+  // its own values give it, so that it still matches its links.
+  useEffect(() => {
+      if (!syncedLayout) return;
+      layoutEditedRef.current = false;
+      setGraph((prev: any) => {
+          if (!prev) return prev;
+          prev.nodes.forEach((n: SankeyNode) => {
+              const saved = syncedLayout.nodes[n.id];
+              if (!saved) return;
+              const length = n.isRotated ? n.x1! - n.x0! : n.y1! - n.y0!;
+              n.x0 = saved.x0;
+              n.y0 = saved.y0;
+              n.isRotated = saved.isRotated;
+              if (saved.isRotated) {
+                  n.x1 = saved.x0 + length;
+                  n.y1 = saved.y1;
+              } else {
+                  n.x1 = saved.x1;
+                  n.y1 = saved.y0 + length;
+              }
+          });
+          return { ...prev };
+      });
+      setLinkOffsets(syncedLayout.links);
+  }, [syncedLayout]);
+
+  const handleSaveClick = () => {
+      const layout = collectLayout();
+      if (!layout) return;
+      onSaveLayout(layout);
       alert("Layout saved! Settings will apply to other years/updates.");
   };
 
   // Expose the save method to parent via ref
   useImperativeHandle(ref, () => ({
-    saveLayout: handleSaveClick
+    saveLayout: handleSaveClick,
+    getLayout: collectLayout,
+    checkpoint,
+    undo,
+    redo,
+    exportSVG: () => svgRef.current ? buildCleanSvg(svgRef.current, width, height) : null,
+    exportImage: async (options: ExportSettings) => {
+        if (!svgRef.current) return null;
+        const transparent = options.transparent && canBeTransparent(options.rasterFormat);
+        const markup = buildCleanSvg(svgRef.current, width, height, transparent ? null : '#ffffff');
+        return rasterizeSvg(markup, width, height, options);
+    },
+    exportPDF: async (options: ExportSettings) => {
+        if (!svgRef.current) return null;
+        return renderPdf(buildCleanSvg(svgRef.current, width, height), width, height, options);
+    }
   }));
 
 
@@ -395,6 +733,13 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
     svg.selectAll("*").remove();
 
     const { nodes, links } = routedGraph;
+    const unitLabel = getUnitLabel(settings);
+    const { unit } = settings;
+    const digits = getDisplayDigits(unit);
+
+    const prev = prevFrameRef.current;
+    const animate = animateNextRef.current && !!prev;
+    animateNextRef.current = false;
 
     const linkGroup = svg.append("g").attr("class", "links");
     const nodeGroup = svg.append("g").attr("class", "nodes");
@@ -423,7 +768,45 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
         return { cp1x, cp1y, cp2x, cp2y };
     };
 
+    // Loops: out of the source, along their lane and back into the target
+    const getLoopPoints = (d: SankeyLink) => {
+        const step = (p: { x: number, y: number, side: string }, dist: number) => {
+            switch (p.side) {
+                case 'right': return { x: p.x + dist, y: p.y };
+                case 'left': return { x: p.x - dist, y: p.y };
+                case 'top': return { x: p.x, y: p.y - dist };
+                default: return { x: p.x, y: p.y + dist };
+            }
+        };
+        const s = d.sourceCoords!;
+        const t = d.targetCoords!;
+        const sOut = step(s, 15);
+        const tOut = step(t, 15);
+        return [s, sOut, { x: sOut.x, y: d.loopY! }, { x: tOut.x, y: d.loopY! }, tOut, t];
+    };
+
+    // Polyline with corners rounded by quadratic curves
+    const getRoundedPath = (points: { x: number, y: number }[], radius: number) => {
+        let path = `M${points[0].x},${points[0].y}`;
+        for (let i = 1; i < points.length - 1; i++) {
+            const a = points[i - 1], p = points[i], b = points[i + 1];
+            const d1 = Math.hypot(p.x - a.x, p.y - a.y);
+            const d2 = Math.hypot(b.x - p.x, b.y - p.y);
+            if (d1 < 1e-6 || d2 < 1e-6) {
+                path += ` L${p.x},${p.y}`;
+                continue;
+            }
+            const r = Math.min(radius, d1 / 2, d2 / 2);
+            const p1 = { x: p.x - (p.x - a.x) / d1 * r, y: p.y - (p.y - a.y) / d1 * r };
+            const p2 = { x: p.x + (b.x - p.x) / d2 * r, y: p.y + (b.y - p.y) / d2 * r };
+            path += ` L${p1.x},${p1.y} Q${p.x},${p.y} ${p2.x},${p2.y}`;
+        }
+        const last = points[points.length - 1];
+        return `${path} L${last.x},${last.y}`;
+    };
+
     const getPath = (d: SankeyLink) => {
+        if (d.circular && d.loopY !== undefined) return getRoundedPath(getLoopPoints(d), 20);
         const s = d.sourceCoords!;
         const t = d.targetCoords!;
         const { cp1x, cp1y, cp2x, cp2y } = getControlPoints(s, t);
@@ -431,6 +814,10 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
     };
 
     const getMidPoint = (d: SankeyLink) => {
+        if (d.circular && d.loopY !== undefined) {
+            const points = getLoopPoints(d);
+            return { x: (points[2].x + points[3].x) / 2, y: d.loopY };
+        }
         const s = d.sourceCoords!;
         const t = d.targetCoords!;
         const { cp1x, cp1y, cp2x, cp2y } = getControlPoints(s, t);
@@ -440,32 +827,122 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
         return { x, y };
     };
 
+    const lerpPoint = (a: { x: number, y: number }, b: { x: number, y: number }, t: number) => ({
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t
+    });
+
     const getColor = (type: string) => {
       switch (type) {
         case 'domestic': return settings.colorDomestic;
         case 'trade': return settings.colorTrade;
+        case 'import': return settings.colorImport;
         case 'loss': return settings.colorLoss;
+        case 'recycled': return settings.colorRecycled;
+        case 'stock': return settings.colorStock;
         default: return '#999';
       }
     };
 
+    const getRegionColor = (regionIndex?: number) =>
+        regionIndex !== undefined && regionIndex >= 0 ? REGION_COLORS[regionIndex % REGION_COLORS.length] : settings.colorTrade;
+
+    const getLinkColor = (d: SankeyLink) => {
+        if (d.change) return getChangeColor(d.change, unit);
+        if (d.region !== undefined) return getRegionColor(d.regionIndex);
+        return getColor(d.type);
+    };
+
+    // Selected flows are emphasised, everything else recedes
+    const selectedKeys = new Set((selectedFlows || []).map(getSelectionKey));
+    const hasSelection = selectedKeys.size > 0;
+    const isLinkSelected = (d: SankeyLink) => selectedKeys.has(getSelectionKey({
+        kind: 'link',
+        source: (d.source as SankeyNode).id,
+        target: (d.target as SankeyNode).id
+    }));
+    const linkOpacity = (d: SankeyLink) => !hasSelection ? 0.5 : isLinkSelected(d) ? 0.8 : 0.15;
+    const isAdditive = (event: MouseEvent) => event.shiftKey || event.ctrlKey || event.metaKey;
+
     // LINKS
     const linkSelection = linkGroup.selectAll("g")
       .data(links)
-      .join("g");
+      .join("g")
+      .attr("data-link-key", getLinkKey);
 
-    linkSelection.append("path")
+    // Uncertainty: a translucent band as wide as the upper bound, behind the flow
+    const rangeWidth = (d: SankeyLink) => d.value > 0 ? (d.width || 0) / d.value * d.range!.max : 0;
+    const rangeBands = linkSelection.filter(d => !!d.range && !d.change && rangeWidth(d) > (d.width || 0))
+      .append("path")
+      .attr("class", "link-range")
       .attr("d", getPath)
       .attr("fill", "none")
-      .attr("stroke", d => getColor(d.type))
+      .attr("stroke", getLinkColor)
+      .attr("stroke-width", rangeWidth)
+      .attr("stroke-opacity", d => linkOpacity(d) * 0.4)
+      .attr("data-selection", d => hasSelection ? (isLinkSelected(d) ? "selected" : "dimmed") : null)
+      .style("pointer-events", "none");
+
+    // Bands appear once the flows have moved into place
+    if (animate) {
+        rangeBands.attr("stroke-opacity", 0)
+            .transition().delay(transitionDuration).duration(transitionDuration / 2)
+            .attr("stroke-opacity", d => linkOpacity(d) * 0.4);
+    }
+
+    const linkPaths = linkSelection.append("path")
+      .attr("class", "link-path")
+      .attr("d", getPath)
+      .attr("fill", "none")
+      .attr("stroke", getLinkColor)
       .attr("stroke-width", d => Math.max(1, d.width || 0))
-      .attr("stroke-opacity", 0.5)
+      .attr("stroke-opacity", linkOpacity)
+      .attr("data-selection", d => hasSelection ? (isLinkSelected(d) ? "selected" : "dimmed") : null)
+      .attr("cursor", onFlowClickRef.current ? "pointer" : null)
       .style("mix-blend-mode", "multiply")
-      .append("title")
+      .on("click", (event, d) => {
+          onFlowClickRef.current?.({
+              kind: 'link',
+              source: (d.source as SankeyNode).id,
+              target: (d.target as SankeyNode).id
+          }, isAdditive(event));
+      });
+
+    // Tween from the previous year's geometry; new links fade in
+    if (animate) {
+        linkPaths.each(function(d) {
+            const path = d3.select(this);
+            const before = prev!.links.get(getLinkKey(d));
+            if (!before) {
+                path.attr("stroke-opacity", 0)
+                    .transition().duration(transitionDuration)
+                    .attr("stroke-opacity", linkOpacity(d));
+                return;
+            }
+            const s = d.sourceCoords!;
+            const t = d.targetCoords!;
+            path.attr("stroke-width", Math.max(1, before.width))
+                .transition().duration(transitionDuration)
+                .attr("stroke-width", Math.max(1, d.width || 0))
+                .attrTween("d", () => (k: number) => getPath({
+                    ...d,
+                    sourceCoords: { ...s, ...lerpPoint(before.source, s, k) },
+                    targetCoords: { ...t, ...lerpPoint(before.target, t, k) }
+                }));
+        });
+    }
+
+    linkPaths.append("title")
       .text(d => {
           // Use realValue if available, otherwise value
           const val = d.realValue !== undefined ? d.realValue : d.value;
-          return `${(d.source as SankeyNode).name} → ${(d.target as SankeyNode).name}\n${val.toFixed(1)} kt`;
+          const target = d.target as SankeyNode;
+          const route = `${(d.source as SankeyNode).name} → ${target.region !== undefined ? `Export to ${target.name}` : target.name}`
+              + (d.region !== undefined && target.region === undefined ? ` (${d.region})` : '');
+          if (d.change) {
+              return `${route}\n${formatMass(d.change.base, unit)} ${unitLabel} → ${formatMass(d.change.target, unit)} ${unitLabel}\nChange: ${formatChange(d.change, unit)} ${unitLabel}`;
+          }
+          return `${route}\n${formatWithRange(val, d.range, digits)} ${unitLabel}${caption ? ` (${caption})` : ''}`;
       });
     
     // Link Value Labels (NEW)
@@ -476,30 +953,54 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
         
         // Hide label if strictly 0 or very small unless it's one of the forced ones (implied by having realValue maybe?)
         // Let's stick to a visual threshold for text labels to avoid clutter
-        if (val < 0.01) return; 
+        if (val < getMinLabelValue(unit) && !d.change) return;
 
         const mid = getMidPoint(d);
         const g = d3.select(this);
+        // Change and range labels carry more than the value, so the box grows with the text
+        const text = d.change ? formatChange(d.change, unit) : formatWithRange(val, d.range, digits);
+        const halfW = d.change || d.range ? Math.max(12, text.length * settings.linkFontSize * 0.3 + 3) : 12;
         
-        g.append("rect")
-            .attr("x", mid.x - 12)
+        const labelBg = g.append("rect")
+            .attr("class", "link-label")
+            .attr("x", mid.x - halfW)
             .attr("y", mid.y - 6)
-            .attr("width", 24)
+            .attr("width", halfW * 2)
             .attr("height", 12)
             .attr("rx", 3)
             .attr("fill", "white")
             .attr("opacity", 0.8)
             .style("pointer-events", "none");
 
-        g.append("text")
+        const labelText = g.append("text")
+            .attr("class", "link-label")
             .attr("x", mid.x)
             .attr("y", mid.y)
             .attr("dy", "0.3em")
             .attr("text-anchor", "middle")
             .attr("font-size", `${settings.linkFontSize}px`) 
             .attr("fill", "#333")
-            .text(val.toFixed(1)) // Display real value
+            .text(text) // Display real value (or its change)
             .style("pointer-events", "none");
+
+        const before = animate ? prev!.links.get(getLinkKey(d)) : undefined;
+        if (before) {
+            const midBefore = getMidPoint({
+                ...d,
+                sourceCoords: { ...d.sourceCoords!, ...before.source },
+                targetCoords: { ...d.targetCoords!, ...before.target }
+            });
+            labelBg.attr("x", midBefore.x - halfW).attr("y", midBefore.y - 6)
+                .transition().duration(transitionDuration)
+                .attr("x", mid.x - halfW).attr("y", mid.y - 6);
+            const moveText = labelText.attr("x", midBefore.x).attr("y", midBefore.y)
+                .transition().duration(transitionDuration)
+                .attr("x", mid.x).attr("y", mid.y);
+            if (!d.change && !d.range) {
+                const interpolateValue = d3.interpolateNumber(before.value, val);
+                moveText.textTween(() => (k: number) => formatMass(interpolateValue(k), unit));
+            }
+        }
     });
 
 
@@ -540,9 +1041,21 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
         ).attr("opacity", show ? 1 : 0);
     };
 
+    // History: record once per gesture, on the first actual movement,
+    // so plain clicks do not create undo entries
+    let gestureRecorded = false;
+    const beginGesture = () => { gestureRecorded = false; };
+    const recordGesture = () => {
+        layoutEditedRef.current = true;
+        if (gestureRecorded) return;
+        gestureRecorded = true;
+        checkpoint();
+    };
+
     const dragLinkHandle = d3.drag<SVGCircleElement, { link: SankeyLink, type: 'source'|'target' }>()
-        .on("start", function() { d3.select(this).attr("opacity", 1).attr("fill", "red"); })
+        .on("start", function() { beginGesture(); d3.select(this).attr("opacity", 1).attr("fill", "red"); })
         .on("drag", function(event, d) {
+            recordGesture();
             const [mouseX, mouseY] = d3.pointer(event, svgRef.current);
             
             const isSource = d.type === 'source';
@@ -589,17 +1102,27 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
     const node = nodeGroup.selectAll("g")
       .data(nodes)
       .join("g")
+      .attr("data-node-id", d => d.id)
       .attr("transform", d => `translate(${d.x0},${d.y0})`)
       .attr("cursor", "move")
       .on("mouseover", (e, d) => showLinkHandles(d, true))
-      .on("mouseout", (e, d) => showLinkHandles(d, false));
+      .on("mouseout", (e, d) => showLinkHandles(d, false))
+      .on("click", (event, d) => {
+          // Clicks that end a drag are suppressed by d3-drag; ignore the resize corner
+          if ((event.target as Element).classList.contains('resize-handle')) return;
+          onFlowClickRef.current?.({ kind: 'node', nodeId: d.id }, isAdditive(event));
+      });
 
     const rect = node.append("rect")
+      .attr("class", "node-rect")
       .attr("width", d => Math.max(1, d.x1! - d.x0!))
       .attr("height", d => Math.max(1, d.y1! - d.y0!))
       .attr("fill", d => {
           if (d.category === 'loss') return settings.colorLoss;
+          if (d.region !== undefined) return getRegionColor(d.regionIndex);
           if (d.category === 'trade') return settings.colorTrade;
+          if (d.category === 'import') return settings.colorImport;
+          if (d.category === 'stock') return settings.colorStock;
           if (d.category === 'end_of_life') return settings.colorDomestic; // Now green (Domestic)
           return settings.colorDomestic;
       })
@@ -607,8 +1130,73 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
       .attr("stroke-width", 1)
       .attr("stroke-opacity", 0.8);
 
+    rect.filter(d => !!d.details)
+      .append("title")
+      .text(d => `${d.name}\n${d.details}`);
+
+    // Incoming export flows by destination (per-destination nodes, or sub-bands of the Export bar)
+    const getRegionInflows = (d: SankeyNode) => {
+        const byRegion = new Map<string, { regionIndex?: number, value: number }>();
+        links.forEach(l => {
+            if (l.target !== d) return;
+            const region = l.region ?? 'Unassigned';
+            const entry = byRegion.get(region) || { regionIndex: l.region !== undefined ? l.regionIndex : undefined, value: 0 };
+            entry.value += l.realValue !== undefined ? l.realValue : l.value;
+            byRegion.set(region, entry);
+        });
+        return Array.from(byRegion.entries()).map(([region, e]) => ({ region, ...e }));
+    };
+
+    rect.filter(d => d.region !== undefined)
+      .append("title")
+      .text(d => `Export to ${d.name}\n${formatMass(getRegionInflows(d).reduce((sum, r) => sum + r.value, 0), unit)} ${unitLabel}`);
+
+    // Sub-bands: the Export bar is split along its length in proportion to each destination
+    node.filter(d => links.some(l => l.target === d && l.region !== undefined && !l.change && d.region === undefined))
+      .each(function(d) {
+          const parts = getRegionInflows(d)
+              .sort((a, b) => (a.regionIndex ?? Infinity) - (b.regionIndex ?? Infinity));
+          const total = parts.reduce((sum, p) => sum + p.value, 0);
+          if (!(total > 0)) return;
+          const w = d.x1! - d.x0!;
+          const h = d.y1! - d.y0!;
+          const alongX = w >= h;
+          let offset = 0;
+          parts.forEach(part => {
+              const length = (part.value / total) * (alongX ? w : h);
+              d3.select(this).append("rect")
+                  .attr("class", "node-band")
+                  .attr("x", alongX ? offset : 0)
+                  .attr("y", alongX ? 0 : offset)
+                  .attr("width", alongX ? length : w)
+                  .attr("height", alongX ? h : length)
+                  .attr("fill", getRegionColor(part.regionIndex))
+                  .attr("stroke", "none")
+                  .append("title")
+                  .text(`${part.region}: ${formatMass(part.value, unit)} ${unitLabel}`);
+              offset += length;
+          });
+      });
+
+    rect.filter(d => selectedKeys.has(getSelectionKey({ kind: 'node', nodeId: d.id })))
+      .attr("data-selection", "selected")
+      .attr("stroke", "#2563eb")
+      .attr("stroke-width", 3)
+      .attr("stroke-opacity", 1);
+
+    // Outline nodes where inflow != outflow
+    rect.filter(d => !!unbalancedNodeIds?.has(d.id))
+      .attr("data-unbalanced", "true")
+      .attr("stroke", "#dc2626")
+      .attr("stroke-width", 2.5)
+      .attr("stroke-opacity", 1)
+      .attr("stroke-dasharray", "5,3")
+      .append("title")
+      .text(d => `${d.name}: mass balance gap`);
+
     rect.on("contextmenu", (event, d) => {
         event.preventDefault();
+        checkpoint();
         const w = d.x1! - d.x0!;
         const h = d.y1! - d.y0!;
         const cx = d.x0! + w/2;
@@ -623,6 +1211,7 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
     });
 
     const resizeHandle = node.append("circle")
+        .attr("class", "resize-handle")
         .attr("r", 6)
         .attr("cx", d => d.x1! - d.x0!)
         .attr("cy", d => d.y1! - d.y0!)
@@ -632,6 +1221,7 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
 
     if (settings.showLabels) {
         node.append("text")
+            .attr("class", "node-label")
             .attr("x", d => (d.x1! - d.x0!) / 2)
             .attr("y", d => (d.y1! - d.y0!) / 2)
             .attr("dy", "0.35em")
@@ -643,10 +1233,35 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
             .style("pointer-events", "none");
     }
 
+    // Tween node position and size from the previous year
+    if (animate) {
+        node.each(function(d) {
+            const before = prev!.nodes.get(d.id);
+            if (!before) return;
+            const g = d3.select(this);
+            const w0 = before.x1 - before.x0, h0 = before.y1 - before.y0;
+            const w1 = d.x1! - d.x0!, h1 = d.y1! - d.y0!;
+
+            g.attr("transform", `translate(${before.x0},${before.y0})`)
+                .transition().duration(transitionDuration)
+                .attr("transform", `translate(${d.x0},${d.y0})`);
+            g.select("rect").attr("width", Math.max(1, w0)).attr("height", Math.max(1, h0))
+                .transition().duration(transitionDuration)
+                .attr("width", Math.max(1, w1)).attr("height", Math.max(1, h1));
+            g.select("circle").attr("cx", w0).attr("cy", h0)
+                .transition().duration(transitionDuration)
+                .attr("cx", w1).attr("cy", h1);
+            g.select("text").attr("x", w0 / 2).attr("y", h0 / 2)
+                .transition().duration(transitionDuration)
+                .attr("x", w1 / 2).attr("y", h1 / 2);
+        });
+    }
+
     // --- FIX: Smooth Dragging with Boundary Clamping ---
     const dragNode = d3.drag<SVGGElement, SankeyNode>()
-        .on("start", function() { d3.select(this).raise(); })
+        .on("start", function() { beginGesture(); d3.select(this).raise(); })
         .on("drag", function(event, d) {
+            recordGesture();
             const w = d.x1! - d.x0!;
             const h = d.y1! - d.y0!;
 
@@ -671,9 +1286,10 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
 
     // --- FIX: Smooth Resizing with Boundary Clamping ---
     const dragResize = d3.drag<SVGCircleElement, SankeyNode>()
-        .on("start", (event) => { event.sourceEvent.stopPropagation(); })
+        .on("start", (event) => { beginGesture(); event.sourceEvent.stopPropagation(); })
         .on("drag", function(event, d) {
             event.sourceEvent.stopPropagation();
+            recordGesture();
             
             // Get mouse position relative to SVG, clamped to boundaries
             const pointer = d3.pointer(event, svgRef.current);
@@ -695,10 +1311,122 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
         
     resizeHandle.call(dragResize as any);
 
+    // Scale bar legend (fixed scale only), drawn into the SVG so exports include it
+    if (pxPerUnit) {
+        const barValue = getScaleBarValue(pxPerUnit);
+        const barPx = barValue * pxPerUnit;
+        const scaleBar = svg.insert("g", ".custom-labels")
+            .attr("class", "scale-bar")
+            .attr("transform", `translate(20,${height - 60 - barPx})`);
+
+        scaleBar.append("rect")
+            .attr("width", 10)
+            .attr("height", barPx)
+            .attr("fill", "#555")
+            .attr("fill-opacity", 0.6);
+
+        scaleBar.append("text")
+            .attr("x", 16)
+            .attr("y", barPx / 2)
+            .attr("dy", "0.35em")
+            .attr("font-family", "sans-serif")
+            .attr("font-size", settings.linkFontSize)
+            .attr("fill", "#333")
+            .text(`${formatScaleValue(barValue)} ${unitLabel}`);
+    }
+
+    // Caption below the loss bar, so exported figures state the period
+    if (caption) {
+        svg.insert("g", ".custom-labels")
+            .attr("class", "caption")
+            .append("text")
+            .attr("x", 20)
+            .attr("y", height - 6)
+            .attr("font-family", "sans-serif")
+            .attr("font-size", settings.linkFontSize)
+            .attr("fill", "#475569")
+            .text(caption);
+    }
+
+    // Destination legend (per-destination breakdown), below the Export bar
+    const regionEntries = new Map<number, string>();
+    links.forEach(l => {
+        if (l.region !== undefined && l.regionIndex !== undefined) regionEntries.set(l.regionIndex, l.region);
+    });
+    if (regionEntries.size) {
+        const legend = svg.insert("g", ".custom-labels")
+            .attr("class", "region-legend")
+            .attr("transform", `translate(${width - 160},60)`);
+
+        legend.append("text")
+            .attr("font-family", "sans-serif")
+            .attr("font-size", settings.linkFontSize)
+            .attr("font-weight", "bold")
+            .attr("fill", "#333")
+            .text("Export destination");
+
+        Array.from(regionEntries.entries())
+            .sort((a, b) => a[0] - b[0])
+            .forEach(([regionIndex, region], i) => {
+                const entry = legend.append("g")
+                    .attr("transform", `translate(0,${8 + i * (settings.linkFontSize + 6)})`);
+                entry.append("rect")
+                    .attr("width", 10)
+                    .attr("height", 10)
+                    .attr("fill", getRegionColor(regionIndex))
+                    .attr("fill-opacity", 0.8);
+                entry.append("text")
+                    .attr("x", 16)
+                    .attr("y", 5)
+                    .attr("dy", "0.35em")
+                    .attr("font-family", "sans-serif")
+                    .attr("font-size", settings.linkFontSize)
+                    .attr("fill", "#333")
+                    .text(region);
+            });
+    }
+
+    // Change legend (difference mode), bottom right
+    if (links.some(l => l.change)) {
+        const steps = [-1, -0.5, 0, 0.5, 1];
+        const swatch = 16;
+        const legend = svg.insert("g", ".custom-labels")
+            .attr("class", "change-legend")
+            .attr("transform", `translate(${width - 20 - steps.length * swatch - 110},${height - 30})`);
+
+        legend.append("text")
+            .attr("x", 0)
+            .attr("y", swatch / 2)
+            .attr("dy", "0.35em")
+            .attr("font-family", "sans-serif")
+            .attr("font-size", settings.linkFontSize)
+            .attr("fill", "#333")
+            .text("Decline");
+
+        legend.selectAll("rect")
+            .data(steps)
+            .join("rect")
+            .attr("x", (r, i) => 50 + i * swatch)
+            .attr("width", swatch)
+            .attr("height", swatch)
+            .attr("fill", r => getChangeColor({ base: 1, target: 1 + r }, unit))
+            .attr("fill-opacity", 0.7);
+
+        legend.append("text")
+            .attr("x", 56 + steps.length * swatch)
+            .attr("y", swatch / 2)
+            .attr("dy", "0.35em")
+            .attr("font-family", "sans-serif")
+            .attr("font-size", settings.linkFontSize)
+            .attr("fill", "#333")
+            .text("Growth");
+    }
+
     // Custom Labels
     const labels = labelGroup.selectAll("g")
         .data(customLabels, (d: any) => d.id)
         .join("g")
+        .attr("data-label-id", d => d.id)
         .attr("transform", d => `translate(${d.x},${d.y})`)
         .attr("cursor", "move");
 
@@ -710,19 +1438,23 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
         .on("dblclick", (event, d) => {
             event.stopPropagation();
             const newText = prompt("Edit text:", d.text);
-            if (newText !== null) {
+            if (newText !== null && newText !== d.text) {
+                checkpoint();
                 const updated = customLabels.map(l => l.id === d.id ? { ...l, text: newText } : l);
                 onUpdateLabels(updated);
             }
         });
 
     const labelDrag = d3.drag<SVGGElement, CustomLabel>()
+        .on("start", beginGesture)
         .on("drag", function(event, d) {
+            recordGesture();
             d.x = Math.max(0, Math.min(width, event.x));
             d.y = Math.max(0, Math.min(height, event.y));
             d3.select(this).attr("transform", `translate(${d.x},${d.y})`);
         })
         .on("end", function(event, d) {
+             if (!gestureRecorded) return;
              const updated = customLabels.map(l => l.id === d.id ? { ...l, x: d.x, y: d.y } : l);
              onUpdateLabels(updated);
         });
@@ -730,12 +1462,39 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
     labels.on("contextmenu", (event, d) => {
         event.preventDefault();
         if(confirm("Delete this label?")) {
+            checkpoint();
             const updated = customLabels.filter(l => l.id !== d.id);
             onUpdateLabels(updated);
         }
     });
 
-  }, [routedGraph, settings, customLabels, width, height, onUpdateLabels]);
+    // Remember this frame as the start state of the next year transition
+    prevFrameRef.current = {
+        nodes: new Map(nodes.map(n => [n.id, { x0: n.x0!, y0: n.y0!, x1: n.x1!, y1: n.y1! }])),
+        links: new Map(links.map(l => [getLinkKey(l), {
+            source: { x: l.sourceCoords!.x, y: l.sourceCoords!.y },
+            target: { x: l.targetCoords!.x, y: l.targetCoords!.y },
+            width: l.width || 0,
+            value: l.realValue !== undefined ? l.realValue : l.value
+        }]))
+    };
+
+    onRenderedRef.current?.();
+
+  }, [routedGraph, settings, customLabels, width, height, onUpdateLabels, unbalancedNodeIds, pxPerUnit, transitionDuration, selectedFlows, caption]);
+
+  if (!interactive) {
+    return (
+      <svg 
+        ref={svgRef} 
+        width={width} 
+        height={height} 
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ maxWidth: '100%', height: 'auto', background: '#fff', pointerEvents: 'none' }}
+      >
+      </svg>
+    );
+  }
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4 overflow-auto relative select-none">
@@ -743,6 +1502,27 @@ const SankeyDiagram = forwardRef<SankeyDiagramRef, Props>(({
          {savedLayout ? "🔒 Layout Locked (Saved)" : ""}
       </div>
 
+      {historyControls && (
+        <div className="absolute top-2 right-2 z-10 flex gap-1">
+          <button
+            onClick={undo}
+            disabled={!historyState.canUndo}
+            className="p-1.5 rounded border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-default"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!historyState.canRedo}
+            className="p-1.5 rounded border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-default"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={14} />
+          </button>
+        </div>
+      )}
+
       <svg 
         ref={svgRef} 
         width={width} 
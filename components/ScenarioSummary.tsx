@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ScenarioFlow, getScenarioChange } from '../utils/scenarios';
+import { formatMass, getDisplayDigits } from '../utils/units';
+import { MassUnit } from '../types';
+import { Table2 } from 'lucide-react';
+
+interface Props {
+  flows: ScenarioFlow[]; // Largest first (see compareScenarioFlows)
+  labelA: string;
+  labelB: string;
+  year: number | null;
+  unit: MassUnit; // Display unit the flows are in
+  unitLabel: string;
+}
+
+// Rows shown before "Show all"
+const KEY_FLOW_COUNT = 10;
+
+const formatDiff = (value: number, digits: number) => `${value > 0 ? '+' : value < 0 ? '−' : '±'}${Math.abs(value).toFixed(digits)}`;
+
+const ScenarioSummary: React.FC<Props> = ({ flows, labelA, labelB, year, unit, unitLabel }) => {
+  const [showAll, setShowAll] = useState(false);
+  const digits = getDisplayDigits(unit);
+  const visible = showAll ? flows : flows.slice(0, KEY_FLOW_COUNT);
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-sm border border-slate-200 p-3 flex-shrink-0 max-h-72 overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+          <Table2 size={14} /> Key Flows{year !== null ? ` ${year}` : ''} ({unitLabel})
+        </h3>
+        {flows.length > KEY_FLOW_COUNT && (
+          <button onClick={() => setShowAll(!showAll)} className="text-xs text-emerald-700 hover:underline">
+            {showAll ? 'Show key flows' : `Show all (${flows.length})`}
+          </button>
+        )}
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-400 text-left">
+            <th className="font-normal pb-1">Flow</th>
+            <th className="font-normal pb-1 text-right">{labelA}</th>
+            <th className="font-normal pb-1 text-right">{labelB}</th>
+            <th className="font-normal pb-1 text-right">Difference</th>
+            <th className="font-normal pb-1 text-right">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visible.map(flow => {
+            const diff = flow.b - flow.a;
+            // Grey when the change rounds away at the shown precision
+            const color = Math.abs(diff) <= 0.5 * 10 ** -digits ? 'text-slate-400' : diff > 0 ? 'text-emerald-700' : 'text-red-700';
+            return (
+              <tr key={flow.key} className="border-t border-slate-100">
+                <td className="py-1 pr-2 text-slate-700">{flow.label}</td>
+                <td className="py-1 text-right font-mono">{formatMass(flow.a, unit)}</td>
+                <td className="py-1 text-right font-mono">{formatMass(flow.b, unit)}</td>
+                <td className={`py-1 text-right font-mono ${color}`}>{formatDiff(diff, digits)}</td>
+                <td className={`py-1 text-right font-mono ${color}`}>
+                  {flow.a > 0 ? `${formatDiff(getScenarioChange(flow) * 100, 1)}%` : flow.b > 0 ? 'new' : '–'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ScenarioSummary;
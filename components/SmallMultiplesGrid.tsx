@@ -0,0 +1,149 @@
+import React, { useMemo, useRef, useState } from 'react';
+import SankeyDiagram, { SankeyDiagramRef } from './SankeyDiagram';
+import { GraphData, VisualizationSettings, SavedLayoutMap, ExportSettings, CustomLabel } from '../types';
+import { composeSvgGrid } from '../utils/svgExport';
+import { rasterizeSvg, renderPdf, canBeTransparent, RASTER_EXTENSION } from '../utils/imageExport';
+import { downloadBlob } from '../utils/download';
+import { Download, FileText, PenTool } from 'lucide-react';
+
+interface Props {
+  frames: { year: number, graph: GraphData }[];
+  settings: VisualizationSettings;
+  savedLayout: SavedLayoutMap | null;
+  maxThroughput: number;
+  selectedYear: number | null;
+  onSelectYear: (year: number) => void;
+  exportSettings: ExportSettings;
+  width: number;
+  height: number;
+}
+
+const noop = () => {};
+const NO_LABELS: CustomLabel[] = [];
+
+const SmallMultiplesGrid: React.FC<Props> = ({
+  frames,
+  settings,
+  savedLayout,
+  maxThroughput,
+  selectedYear,
+  onSelectYear,
+  exportSettings,
+  width,
+  height
+}) => {
+  const [columns, setColumns] = useState(3);
+  const diagramRefs = useRef<Map<number, SankeyDiagramRef>>(new Map());
+
+  // Thumbnails always share one value scale so widths compare across panels
+  const gridSettings = useMemo<VisualizationSettings>(() => ({ ...settings, fixedScale: true }), [settings]);
+
+  const composeGrid = (background: string | null) => {
+    const cells = frames.flatMap(({ year }) => {
+      const markup = diagramRefs.current.get(year)?.exportSVG();
+      return markup ? [{ title: String(year), markup }] : [];
+    });
+    return composeSvgGrid(cells, columns, width, height, background);
+  };
+
+  const handleExportSVG = () => {
+    const grid = composeGrid('#ffffff');
+    downloadBlob(new Blob([grid.markup], { type: "image/svg+xml;charset=utf-8" }), 'sankey_nd_flow_grid.svg');
+  };
+
+  const handleExportImage = async () => {
+    try {
+      const transparent = exportSettings.transparent && canBeTransparent(exportSettings.rasterFormat);
+      const grid = composeGrid(transparent ? null : '#ffffff');
+      const blob = await rasterizeSvg(grid.markup, grid.width, grid.height, exportSettings);
+      downloadBlob(blob, `sankey_nd_flow_grid.${RASTER_EXTENSION[exportSettings.rasterFormat]}`);
+    } catch (e) {
+      console.error("Download failed", e);
+      alert("Failed to save image. Browser security might be blocking canvas export.");
+    }
+  };
+
+  const handleExportPDF = async () => {
+    try {
+      const grid = composeGrid('#ffffff');
+      downloadBlob(await renderPdf(grid.markup, grid.width, grid.height, exportSettings), 'sankey_nd_flow_grid.pdf');
+    } catch (e) {
+      console.error("PDF Generation Error:", e);
+      alert("Failed to generate PDF. Check console for details.");
+    }
+  };
+
+  const rasterLabel = exportSettings.rasterFormat === 'jpeg' ? 'JPG' : exportSettings.rasterFormat.toUpperCase();
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex items-center justify-end gap-2 mb-3">
+        <label className="text-xs text-slate-500">Columns</label>
+        <select
+          value={columns}
+          onChange={(e) => setColumns(Number(e.target.value))}
+          className="rounded text-xs border-slate-300 border p-1"
+        >
+          {[2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+        <button
+          onClick={handleExportImage}
+          className="flex items-center gap-1 bg-slate-800 hover:bg-slate-700 text-white py-1 px-2 rounded-md text-xs font-medium"
+          title="Save grid as image"
+        >
+          <Download size={14} /> {rasterLabel}
+        </button>
+        <button
+          onClick={handleExportPDF}
+          className="flex items-center gap-1 bg-red-600 hover:bg-red-700 text-white py-1 px-2 rounded-md text-xs font-medium"
+          title="Save grid as PDF"
+        >
+          <FileText size={14} /> PDF
+        </button>
+        <button
+          onClick={handleExportSVG}
+          className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 text-white py-1 px-2 rounded-md text-xs font-medium"
+          title="Save grid as SVG"
+        >
+          <PenTool size={14} /> SVG
+        </button>
+      </div>
+
+      <div
+        className="grid gap-4 overflow-y-auto pb-4"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {frames.map(({ year, graph }) => (
+          <button
+            key={year}
+            onClick={() => onSelectYear(year)}
+            className={`text-left bg-white rounded-lg border p-2 hover:shadow-md transition-shadow ${
+              year === selectedYear ? 'border-emerald-500 ring-1 ring-emerald-500' : 'border-slate-200'
+            }`}
+            title={`Open ${year} in the editor`}
+          >
+            <div className="text-sm font-semibold text-slate-700 mb-1">{year}</div>
+            <SankeyDiagram
+              ref={(instance) => {
+                if (instance) diagramRefs.current.set(year, instance);
+                else diagramRefs.current.delete(year);
+              }}
+              data={graph}
+              settings={gridSettings}
+              customLabels={NO_LABELS}
+              onUpdateLabels={noop}
+              savedLayout={savedLayout}
+              onSaveLayout={noop}
+              maxThroughput={maxThroughput}
+              interactive={false}
+              width={width}
+              height={height}
+            />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SmallMultiplesGrid;
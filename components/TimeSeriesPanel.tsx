@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { FlowSeries, MassUnit } from '../types';
+import { formatMass } from '../utils/units';
+import { ChartLine, Layers, X, GitMerge } from 'lucide-react';
+
+interface Props {
+  series: FlowSeries[];
+  stockSeries?: FlowSeries[]; // Cumulative in-use stock per product, drawn as stacked bars
+  unit: MassUnit; // Display unit the values are in
+  unitLabel: string;
+  selectedYear: number | null;
+  onYearChange: (year: number) => void;
+  onRemove: (key: string) => void;
+  onClear: () => void;
+  onShowInflows: (key: string) => void; // Replace a node series by its incoming links
+}
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 190;
+const MARGIN = { top: 12, right: 56, bottom: 24, left: 48 };
+
+const SERIES_COLORS = d3.schemeTableau10;
+const STOCK_COLORS = ['#bcbddc', '#9e9ac8', '#807dba', '#6a51a3'];
+
+const NO_STOCK: FlowSeries[] = [];
+
+const TimeSeriesPanel: React.FC<Props> = ({
+  series,
+  stockSeries = NO_STOCK,
+  unit,
+  unitLabel,
+  selectedYear,
+  onYearChange,
+  onRemove,
+  onClear,
+  onShowInflows
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [stacked, setStacked] = useState(false);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    if (!series.length || !series[0].values.length) return;
+
+    const years = series[0].values.map(v => v.year);
+    const rows = years.map((year, i) => {
+      const row: Record<string, number> = { year };
+      series.forEach(s => { row[s.key] = s.values[i].value; });
+      return row;
+    });
+
+    const stack = d3.stack<Record<string, number>>().keys(series.map(s => s.key));
+    const layers = stack(rows);
+
+    const maxValue = stacked
+      ? d3.max(layers[layers.length - 1], d => d[1]) || 0
+      : d3.max(series, s => d3.max(s.values, v => v.value)) || 0;
+
+    const x = d3.scaleLinear()
+      .domain(years.length > 1 ? [years[0], years[years.length - 1]] : [years[0] - 1, years[0] + 1])
+      .range([MARGIN.left, CHART_WIDTH - MARGIN.right]);
+    const y = d3.scaleLinear()
+      .domain([0, maxValue || 1]).nice()
+      .range([CHART_HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append("g")
+      .attr("transform", `translate(0,${CHART_HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(Math.min(years.length, 10)).tickFormat(d3.format("d")) as any)
+      .attr("font-size", 10);
+
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(4) as any)
+      .attr("font-size", 10);
+
+    svg.append("text")
+      .attr("x", MARGIN.left - 40)
+      .attr("y", MARGIN.top - 2)
+      .attr("font-size", 10)
+      .attr("fill", "#64748b")
+      .text(unitLabel);
+
+    // In-use stock bars on their own (right) axis, behind the flows
+    if (stockSeries.length) {
+      const stockRows = years.map((year, i) => {
+        const row: Record<string, number> = { year };
+        stockSeries.forEach(s => { row[s.key] = Math.max(0, s.values[i]?.value || 0); });
+        return row;
+      });
+      const stockLayers = d3.stack<Record<string, number>>().keys(stockSeries.map(s => s.key))(stockRows);
+      const yStock = d3.scaleLinear()
+        .domain([0, d3.max(stockLayers[stockLayers.length - 1], d => d[1]) || 1]).nice()
+        .range([CHART_HEIGHT - MARGIN.bottom, MARGIN.top]);
+      const step = years.length > 1 ? x(years[1]) - x(years[0]) : 40;
+      const barWidth = Math.max(2, step * 0.6);
+
+      svg.append("g")
+        .attr("transform", `translate(${CHART_WIDTH - MARGIN.right},0)`)
+        .call(d3.axisRight(yStock).ticks(4) as any)
+        .attr("font-size", 10);
+
+      svg.append("text")
+        .attr("x", CHART_WIDTH - MARGIN.right + 8)
+        .attr("y", MARGIN.top - 2)
+        .attr("font-size", 10)
+        .attr("fill", "#64748b")
+        .text(`stock ${unitLabel}`);
+
+      stockLayers.forEach((layer, i) => {
+        svg.append("g")
+          .selectAll("rect")
+          .data(layer)
+          .join("rect")
+          .attr("x", d => x(d.data.year) - barWidth / 2)
+          .attr("y", d => yStock(d[1]))
+          .attr("width", barWidth)
+          .attr("height", d => Math.max(0, yStock(d[0]) - yStock(d[1])))
+          .attr("fill", STOCK_COLORS[i % STOCK_COLORS.length])
+          .attr("fill-opacity", 0.6)
+          .append("title")
+          .text(d => `${stockSeries[i].label}\n${d.data.year}: ${formatMass(d[1] - d[0], unit)} ${unitLabel}`);
+      });
+    }
+
+    if (stacked) {
+      const area = d3.area<d3.SeriesPoint<Record<string, number>>>()
+        .x(d => x(d.data.year))
+        .y0(d => y(d[0]))
+        .y1(d => y(d[1]));
+
+      svg.append("g")
+        .selectAll("path")
+        .data(layers)
+        .join("path")
+        .attr("d", area)
+        .attr("fill", (d, i) => SERIES_COLORS[i % SERIES_COLORS.length])
+        .attr("fill-opacity", 0.75)
+        .append("title")
+        .text((d, i) => series[i].label);
+    } else {
+      const line = d3.line<{ year: number, value: number }>()
+        .x(d => x(d.year))
+        .y(d => y(d.value));
+
+      series.forEach((s, i) => {
+        const color = SERIES_COLORS[i % SERIES_COLORS.length];
+        const g = svg.append("g");
+        g.append("path")
+          .attr("d", line(s.values))
+          .attr("fill", "none")
+          .attr("stroke", color)
+          .attr("stroke-width", 2);
+        g.selectAll("circle")
+          .data(s.values)
+          .join("circle")
+          .attr("cx", d => x(d.year))
+          .attr("cy", d => y(d.value))
+          .attr("r", 3)
+          .attr("fill", color)
+          .append("title")
+          .text(d => `${s.label}\n${d.year}: ${formatMass(d.value, unit)} ${unitLabel}`);
+      });
+    }
+
+    // Year cursor
+    if (selectedYear !== null && years.includes(selectedYear)) {
+      const cx = x(selectedYear);
+      svg.append("line")
+        .attr("x1", cx).attr("x2", cx)
+        .attr("y1", MARGIN.top).attr("y2", CHART_HEIGHT - MARGIN.bottom)
+        .attr("stroke", "#0f172a")
+        .attr("stroke-dasharray", "4,3")
+        .style("pointer-events", "none");
+      svg.append("text")
+        .attr("x", cx + 4)
+        .attr("y", MARGIN.top + 8)
+        .attr("font-size", 10)
+        .attr("font-weight", "bold")
+        .attr("fill", "#0f172a")
+        .text(selectedYear)
+        .style("pointer-events", "none");
+    }
+
+    // Clicking anywhere in the plot jumps to the nearest year
+    svg.on("click", (event) => {
+      const [mx] = d3.pointer(event);
+      const target = x.invert(mx);
+      const nearest = years.reduce((best, yr) => Math.abs(yr - target) < Math.abs(best - target) ? yr : best);
+      onYearChange(nearest);
+    });
+  }, [series, stockSeries, unit, unitLabel, selectedYear, stacked, onYearChange]);
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-sm border border-slate-200 p-3 flex-shrink-0">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div className="flex flex-wrap gap-2">
+          {series.map((s, i) => (
+            <span key={s.key} className="flex items-center gap-1 text-xs bg-slate-100 rounded px-2 py-0.5 text-slate-700">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ background: SERIES_COLORS[i % SERIES_COLORS.length] }} />
+              {s.label}
+              {s.key.startsWith('node:') && (
+                <button onClick={() => onShowInflows(s.key)} title="Show inflows by source" className="text-slate-400 hover:text-slate-700">
+                  <GitMerge size={12} />
+                </button>
+              )}
+              <button onClick={() => onRemove(s.key)} title="Remove" className="text-slate-400 hover:text-red-600">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          {stockSeries.map((s, i) => {
+            const current = s.values.find(v => v.year === selectedYear);
+            return (
+              <span key={s.key} className="flex items-center gap-1 text-xs bg-violet-50 rounded px-2 py-0.5 text-slate-700">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ background: STOCK_COLORS[i % STOCK_COLORS.length] }} />
+                {s.label}{current ? `: ${formatMass(current.value, unit)} ${unitLabel}` : ''}
+              </span>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <div className="flex rounded-md border border-slate-300 overflow-hidden text-xs">
+            <button
+              onClick={() => setStacked(false)}
+              className={`flex items-center gap-1 px-2 py-1 ${!stacked ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              <ChartLine size={12} /> Lines
+            </button>
+            <button
+              onClick={() => setStacked(true)}
+              className={`flex items-center gap-1 px-2 py-1 ${stacked ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              <Layers size={12} /> Stacked
+            </button>
+          </div>
+          <button onClick={onClear} className="text-xs text-slate-500 hover:text-slate-800">
+            Clear
+          </button>
+        </div>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full cursor-pointer"
+        style={{ height: CHART_HEIGHT }}
+        preserveAspectRatio="xMidYMid meet"
+      />
+      <p className="text-[10px] text-slate-400 mt-1">
+        Click a node or link in the diagram to chart it • Shift+click to add more • Click the chart to jump to a year
+      </p>
+    </div>
+  );
+};
+
+export default TimeSeriesPanel;
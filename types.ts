@@ -27,6 +27,10 @@ export interface NdDataRow {
   'end of life'?: number;
   'end of life to loss'?: number; // Keep for backward compatibility
 
+  // Recycling (End of Life back into production)
+  'recycled-metal'?: number;
+  'recycled-magnet'?: number;
+
   // Export aliases (alternative column names)
   'export-concentrate'?: number;
   'export-metal'?: number;
@@ -35,13 +39,26 @@ export interface NdDataRow {
   'export-other semi-products'?: number;
   'export-other finalproducts'?: number;
 
+  // Import aliases (flows entering the domestic chain from abroad)
+  'import-concentrate'?: number;
+  'import-metal'?: number;
+  'import-permenent magnets'?: number;
+  'import-other semi-products'?: number;
+  'import-wind turbine'?: number;
+  'import-other finalproducts'?: number;
+
   [key: string]: number | string | undefined; 
 }
 
+// 'stock' nodes/links are derived by the in-use stock accounting, never declared in a model
+export type NodeCategory = 'process' | 'trade' | 'import' | 'loss' | 'end_of_life' | 'stock';
+
+export type LinkType = 'domestic' | 'trade' | 'import' | 'loss' | 'recycled' | 'stock';
+
 export interface SankeyNode {
   id: string; // Unique identifier for saving layout
   name: string; // Display name (can be duplicate, e.g. Export)
-  category: 'process' | 'trade' | 'loss' | 'end_of_life';
+  category: NodeCategory;
   index?: number;
   x0?: number;
   x1?: number;
@@ -49,21 +66,38 @@ export interface SankeyNode {
   y1?: number;
   value?: number;
   isRotated?: boolean; 
+  accumulatesStock?: boolean; // In-use stock node: inflow and outflow need not balance
+  details?: string; // Extra tooltip lines (e.g. cumulative in-use stock)
+  region?: string; // Per-destination export node
+  regionIndex?: number; // Position of the region among all regions in the data (color)
   // Custom layout properties
   width?: number;
   height?: number;
 }
 
+// Uncertainty interval of a flow (kt), from _min/_max or _sd companion columns
+export interface FlowRange {
+  min: number;
+  max: number;
+  sd?: number; // Set when the interval is value ± sd
+}
+
 export interface SankeyLink {
   index?: number;
   source: number | string | SankeyNode; 
   target: number | string | SankeyNode;
   value: number;
   realValue?: number; // Store the actual data value if different from visualization value
-  type: 'domestic' | 'trade' | 'loss';
+  range?: FlowRange; // Uncertainty of realValue
+  change?: { base: number, target: number }; // Difference mode: values in the two compared years
+  region?: string; // Export destination (per-destination breakdown)
+  regionIndex?: number;
+  type: LinkType;
   width?: number;
   y0?: number;
   y1?: number;
+  circular?: boolean; // Closes a cycle (e.g. recycling); laid out and routed outside d3-sankey
+  loopY?: number; // Circular links: y of the lane the link runs along below/above the diagram
   // Custom routing
   sourceCoords?: { x: number, y: number, side: 'top' | 'bottom' | 'left' | 'right' };
   targetCoords?: { x: number, y: number, side: 'top' | 'bottom' | 'left' | 'right' };
@@ -74,6 +108,78 @@ export interface GraphData {
   links: SankeyLink[];
 }
 
+// --- Flow Model Definitions ---
+// A flow model declares the nodes of a material chain and how spreadsheet
+// columns map onto links between them. processYearData interprets it per row.
+
+export interface FlowModelNode {
+  id: string;
+  name: string;
+  category: NodeCategory;
+  accumulatesStock?: boolean; // Products in use: excluded from the mass-balance check
+}
+
+export interface FlowModelLink {
+  source: string; // Node id
+  target: string; // Node id
+  type: LinkType;
+  columns: string[]; // Column names (aliases) read from the data row
+  combine?: 'sum' | 'first'; // 'sum' (default) adds all columns, 'first' takes the first non-zero one
+  forceVisible?: boolean; // Draw a thin line even when the value is ~0
+}
+
+export interface FlowModel {
+  id: string;
+  name: string;
+  nodes: FlowModelNode[];
+  links: FlowModelLink[];
+}
+
+// --- Mass Balance Validation ---
+
+export interface MassBalanceIssue {
+  year: number;
+  nodeId: string;
+  nodeName: string;
+  inflow: number;
+  outflow: number; // Including losses and exports
+  gap: number; // inflow - outflow
+  gapRange?: { min: number, max: number }; // Possible gaps within the flow uncertainty ranges
+  relativeGap: number; // |gap| relative to the larger of inflow/outflow (0..1)
+}
+
+// --- Time Series ---
+
+// A node or link picked in the diagram for the companion chart
+export type FlowSelection =
+  | { kind: 'node', nodeId: string }
+  | { kind: 'link', source: string, target: string }; // Node ids
+
+export interface FlowSeries {
+  key: string; // See getSelectionKey
+  label: string;
+  values: { year: number, value: number }[]; // One entry per loaded year (0 when absent)
+}
+
+// --- Indicators ---
+
+export interface IndicatorSeries {
+  key: string;
+  label: string;
+  description: string;
+  values: { year: number, value: number | null }[]; // Share (0..1) per loaded year, null when undefined
+}
+
+// --- Multi-Year Aggregation ---
+
+export type AggregationMethod = 'sum' | 'mean'; // Cumulative total or mean per year
+
+export interface YearAggregation {
+  from: number; // Inclusive
+  to: number; // Inclusive
+  method: AggregationMethod;
+}
+
 export interface CustomLabel {
   id: string;
   text: string;
@@ -101,15 +207,93 @@ export interface SavedLayoutMap {
     links: Record<string, SavedLinkLayout>; // Keyed by "SourceID-TargetID"
 }
 
+// Destination-specific export columns: ignored, one node per region,
+// or colored sub-bands of the single Export bar
+export type ExportBreakdown = 'none' | 'nodes' | 'bands';
+
 export interface VisualizationSettings {
   nodeWidth: number;
   nodePadding: number;
   fontSize: number; 
   linkFontSize: number;
   flowScale: number; 
+  fixedScale: boolean; // Share one value-to-pixel factor across all years
+  exportBreakdown: ExportBreakdown;
+  showInUseStock: boolean; // Add net stock additions of in-use products as flows into an In-use Stock node
   colorDomestic: string;
   colorTrade: string;
+  colorImport: string;
   colorLoss: string;
+  colorRecycled: string;
+  colorStock: string;
   showLabels: boolean;
   align: 'justify' | 'left' | 'right' | 'center';
-}
\ No newline at end of file
+  unit: MassUnit; // Display unit of labels, tooltips, legends and exports
+  massBasis: MassBasis;
+  contentShares: Record<string, number>; // Node id -> Nd share of its product mass (0..1), for the product basis
+  dataUnit: MassUnit; // Unit of data columns without a unit suffix such as "(kt)"
+  columnUnits: Record<string, MassUnit>; // Per-column overrides of the data unit
+  headerUnits: Record<string, MassUnit>; // Unit suffixes of the workbook headers behind mapped columns
+}
+
+// --- Units ---
+
+export type MassUnit = 't' | 'kt' | 'Mt';
+
+// Nd content (element mass) or mass of the products carrying it (e.g. NdFeB magnets)
+export type MassBasis = 'content' | 'product';
+
+// Units of the data columns; values are converted to kt when read
+export interface DataUnits {
+  default: MassUnit;
+  columns: Record<string, MassUnit>; // Per-column overrides
+}
+
+// --- Export ---
+
+export type RasterFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ExportSettings {
+  rasterFormat: RasterFormat;
+  dpi: number; // 96 dpi = 1 px per diagram unit
+  quality: number; // JPEG/WebP quality (0..1)
+  transparent: boolean; // PNG/WebP only: omit the white background
+  pdfPageSize: 'a4' | 'a3' | 'letter' | 'fit'; // 'fit' = page sized to the diagram
+  pdfOrientation: 'landscape' | 'portrait';
+  batchFormat: 'zip-svg' | 'zip-image' | 'pdf'; // "Export all years" packaging
+}
+
+// --- Column Mapping ---
+
+// Expected column (see getExpectedFields) -> workbook header; unmapped columns are omitted
+export type ColumnMapping = Record<string, string>;
+
+// --- Edge Lists ---
+
+// Long-format input: one row per flow and year. Edge lists are drawn as they
+// are, without a flow model; node ids are the source/target names.
+export interface EdgeRow {
+  year: number;
+  source: string;
+  target: string;
+  value: number;
+  type: LinkType;
+  min?: number; // Optional uncertainty, as in the _min/_max/_sd columns of wide data
+  max?: number;
+  sd?: number;
+  unit?: MassUnit; // Optional unit column; defaults to the data unit setting
+}
+
+// --- Project Files ---
+// Everything needed to restore a working session
+
+export interface ProjectState {
+  data: NdDataRow[];
+  edges?: EdgeRow[]; // Set instead of data for edge-list imports
+  selectedYear: number | null;
+  savedLayout: SavedLayoutMap | null;
+  currentLayout?: SavedLayoutMap | null; // On-screen positions, restored without locking the layout
+  customLabels: CustomLabel[];
+  settings: VisualizationSettings;
+  flowModel: FlowModel;
+}
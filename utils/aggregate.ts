@@ -0,0 +1,42 @@
+import { NdDataRow, YearAggregation } from '../types';
+
+// Rows whose year lies inside the (inclusive) period
+export const getRowsInPeriod = (rows: NdDataRow[], period: YearAggregation): NdDataRow[] => {
+  const from = Math.min(period.from, period.to);
+  const to = Math.max(period.from, period.to);
+  return rows.filter(r => Number(r.year) >= from && Number(r.year) <= to);
+};
+
+// Combines the rows of a period column by column into one row that
+// processYearData can interpret. Blank and non-numeric cells count as 0,
+// so "mean" is the mean per year of the period, not per filled cell.
+// Standard deviations (_sd) of the years add in quadrature.
+export const aggregateRows = (rows: NdDataRow[], period: YearAggregation): NdDataRow | null => {
+  const selected = getRowsInPeriod(rows, period);
+  if (selected.length === 0) return null;
+
+  const isSd = (column: string) => column.toLowerCase().endsWith('_sd');
+  const totals: Record<string, number> = {};
+  selected.forEach(row => {
+    Object.keys(row).forEach(column => {
+      if (column === 'year') return;
+      const value = Number(row[column]) || 0;
+      totals[column] = (totals[column] || 0) + (isSd(column) ? value * value : value);
+    });
+  });
+
+  const aggregated: NdDataRow = { year: Math.max(period.from, period.to) } as NdDataRow;
+  Object.keys(totals).forEach(column => {
+    const total = isSd(column) ? Math.sqrt(totals[column]) : totals[column];
+    aggregated[column] = period.method === 'mean' ? total / selected.length : total;
+  });
+  return aggregated;
+};
+
+// e.g. "2000–2020, total" or "2000–2020, mean per year"
+export const describeAggregation = (period: YearAggregation): string => {
+  const from = Math.min(period.from, period.to);
+  const to = Math.max(period.from, period.to);
+  const range = from === to ? `${from}` : `${from}–${to}`;
+  return `${range}, ${period.method === 'sum' ? 'total' : 'mean per year'}`;
+};
@@ -0,0 +1,119 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import JSZip from 'jszip';
+import SankeyDiagram, { SankeyDiagramRef } from '../components/SankeyDiagram';
+import { GraphData, VisualizationSettings, CustomLabel, SavedLayoutMap, ExportSettings } from '../types';
+import { createPdf, drawSvgOnPdfPage, getPdfPageSize, RASTER_EXTENSION, PDF_MARGIN, PX_TO_PT } from './imageExport';
+
+export interface BatchFrame {
+  year: number;
+  graph: GraphData;
+}
+
+export interface BatchExportOptions {
+  frames: BatchFrame[];
+  settings: VisualizationSettings;
+  customLabels: CustomLabel[];
+  savedLayout: SavedLayoutMap | null;
+  maxThroughput: number;
+  exportSettings: ExportSettings;
+  width: number;
+  height: number;
+  onProgress: (done: number, total: number) => void;
+}
+
+const RENDER_TIMEOUT_MS = 5000;
+const PDF_HEADER_HEIGHT = 24;
+
+const noop = () => {};
+
+// Mounts one hidden diagram and draws every frame into it in turn, handing the
+// diagram to `visit` once the frame is on screen. Layout, settings and labels
+// are shared by all frames, exactly as in the main editor.
+const renderFrames = async (
+  options: BatchExportOptions,
+  visit: (diagram: SankeyDiagramRef, frame: BatchFrame) => Promise<void>
+) => {
+  const host = document.createElement('div');
+  host.style.position = 'absolute';
+  host.style.left = '-100000px';
+  host.style.top = '0';
+  document.body.appendChild(host);
+
+  const root = createRoot(host);
+  const ref = React.createRef<SankeyDiagramRef>();
+
+  try {
+    for (let i = 0; i < options.frames.length; i++) {
+      const frame = options.frames[i];
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Rendering ${frame.year} timed out.`)), RENDER_TIMEOUT_MS);
+        root.render(
+          <SankeyDiagram
+            ref={ref}
+            data={frame.graph}
+            settings={options.settings}
+            customLabels={options.customLabels}
+            onUpdateLabels={noop}
+            savedLayout={options.savedLayout}
+            onSaveLayout={noop}
+            maxThroughput={options.maxThroughput}
+            width={options.width}
+            height={options.height}
+            onRendered={() => { clearTimeout(timer); resolve(); }}
+          />
+        );
+      });
+      // Let follow-up state updates of this frame settle
+      await new Promise(r => setTimeout(r, 0));
+
+      if (!ref.current) throw new Error("Diagram did not mount.");
+      await visit(ref.current, frame);
+      options.onProgress(i + 1, options.frames.length);
+    }
+  } finally {
+    root.unmount();
+    document.body.removeChild(host);
+  }
+};
+
+export const exportAllYearsZip = async (options: BatchExportOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  const { exportSettings } = options;
+  const asImage = exportSettings.batchFormat === 'zip-image';
+
+  await renderFrames(options, async (diagram, frame) => {
+    if (asImage) {
+      const blob = await diagram.exportImage(exportSettings);
+      if (blob) zip.file(`sankey_nd_flow_${frame.year}.${RASTER_EXTENSION[exportSettings.rasterFormat]}`, blob);
+    } else {
+      const markup = diagram.exportSVG();
+      if (markup) zip.file(`sankey_nd_flow_${frame.year}.svg`, markup);
+    }
+  });
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const exportAllYearsPdf = async (options: BatchExportOptions): Promise<Blob> => {
+  const { exportSettings, width, height } = options;
+  // Reserve room for the header when the page is fitted to the diagram
+  const pageHeightPx = height + PDF_HEADER_HEIGHT / PX_TO_PT;
+  const doc = createPdf(exportSettings, width, pageHeightPx);
+  const [pageW, pageH] = getPdfPageSize(exportSettings, width, pageHeightPx);
+  let first = true;
+
+  await renderFrames(options, async (diagram, frame) => {
+    const markup = diagram.exportSVG();
+    if (!markup) return;
+    if (!first) doc.addPage([pageW, pageH], pageW > pageH ? 'landscape' : 'portrait');
+    first = false;
+
+    // Year as page header
+    doc.setFontSize(14);
+    doc.text(`Year: ${frame.year}`, PDF_MARGIN, PDF_MARGIN + 14);
+    await drawSvgOnPdfPage(doc, markup, width, height, PDF_HEADER_HEIGHT);
+  });
+
+  return doc.output('blob');
+};
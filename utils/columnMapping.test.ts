@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getExpectedFields, suggestMapping, needsReview, mappingFromSuggestion, applyColumnMapping } from './columnMapping';
+import { ND_FLOW_MODEL } from './flowModels';
+import { NdDataRow } from '../types';
+
+const fields = getExpectedFields(ND_FLOW_MODEL);
+
+// Headers of the reference workbook, exactly as processYearData reads them
+const CANONICAL_HEADERS = [
+  'year', 'domestic-ore', 'trade-concentrate', 'domestic-concentrate', 'loss-concentrate',
+  'trade-metal', 'domestic-metal', 'loss-metal', 'permanent magnets-ex(kt)', 'permanent magnets-im(kt)',
+  'share of PM', 'trade-permenent magnets', 'domestic-permenent magnets', 'domestic-other semi-products',
+  'output-other semi-products', 'loss-permenent magnets', 'domestic-other finalproducts',
+  'domestic-wind turbine', 'trade-wind turbine', 'Wind Turbine outflow', 'Others outflow', 'end of life'
+];
+
+describe('suggestMapping', () => {
+  it('loads the canonical headers without review', () => {
+    const suggestion = suggestMapping(fields, CANONICAL_HEADERS);
+    expect(suggestion['export-other semi-products'].header).toBeNull();
+    expect(needsReview(fields, suggestion)).toBe(false);
+  });
+
+  it('does not offer export columns to import fields when trade- and export- spellings coexist', () => {
+    const headers = ['year', 'trade-concentrate', 'export-concentrate', 'trade-metal', 'export-metal', 'domestic-metal'];
+    const suggestion = suggestMapping(fields, headers);
+    expect(suggestion['import-concentrate'].header).toBeNull();
+    expect(suggestion['import-metal'].header).toBeNull();
+    expect(needsReview(fields, suggestion)).toBe(false);
+
+    const row = { year: 2020, 'trade-concentrate': 1, 'export-concentrate': 2, 'trade-metal': 3, 'export-metal': 1 } as NdDataRow;
+    const [mapped] = applyColumnMapping([row], mappingFromSuggestion(fields, suggestion), fields);
+    expect(mapped['export-concentrate']).toBe(2);
+    expect(mapped['export-metal']).toBe(1);
+    expect(mapped['import-concentrate']).toBeUndefined();
+    expect(mapped['import-metal']).toBeUndefined();
+  });
+
+  it('still matches misspelled headers of the same flow direction', () => {
+    const suggestion = suggestMapping(fields, ['Year', 'Domestic Metall', 'Metal-IM (t)']);
+    expect(suggestion['domestic-metal'].header).toBe('Domestic Metall');
+    expect(suggestion['import-metal'].header).toBe('Metal-IM (t)');
+  });
+});
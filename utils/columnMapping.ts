@@ -0,0 +1,241 @@
+import { NdDataRow, FlowModel, ColumnMapping } from '../types';
+import { getDestinationColumns } from './destinations';
+import { RANGE_SUFFIXES, getRangeBase } from './uncertainty';
+
+// Columns the flow model reads, one entry per distinct column expression.
+// `column` is the canonical name rows are renamed to; `aliases` are the
+// names processYearData already accepts as they are.
+export interface ExpectedField {
+  column: string;
+  label: string;
+  aliases: string[];
+  required?: boolean;
+}
+
+export interface MappingSuggestion {
+  header: string | null; // Workbook header, null = not found
+  score: number; // 0..1 similarity of the normalized names
+  exact: boolean; // Header is one of the accepted aliases
+}
+
+// Below this similarity a header is not suggested at all
+const MIN_SCORE = 0.75;
+
+const STORAGE_KEY = 'ndflow-sankey.columnMappings';
+
+export const getExpectedFields = (model: FlowModel): ExpectedField[] => {
+  const nameOf = (id: string) => model.nodes.find(n => n.id === id)?.name || id;
+  const fields: ExpectedField[] = [{ column: 'year', label: 'Year', aliases: ['year'], required: true }];
+  const byColumn = new Map<string, ExpectedField>();
+
+  model.links.forEach(link => {
+    if (link.columns.length === 0) return;
+    const column = link.columns[0];
+    const label = `${nameOf(link.source)} → ${nameOf(link.target)}`;
+    const existing = byColumn.get(column);
+    if (existing) {
+      existing.label += `, ${label}`;
+      return;
+    }
+    const field = { column, label, aliases: [...link.columns] };
+    byColumn.set(column, field);
+    fields.push(field);
+  });
+
+  return fields;
+};
+
+// Lower case, no unit suffixes such as "(kt)", known misspellings fixed,
+// separators collapsed: "Permenent Magnets_EX (kt)" -> "permanent magnets ex"
+const normalize = (name: string) => name
+  .toLowerCase()
+  .replace(/\([^)]*\)/g, ' ')
+  .replace(/permenent/g, 'permanent')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+};
+
+// Flow direction words of a column name; "trade" and "export" are synonyms,
+// as are the "-im"/"-ex" suffixes of the import/export columns
+const FLOW_PREFIXES: Record<string, string> = { import: 'import', export: 'export', trade: 'export', domestic: 'domestic', output: 'output' };
+const FLOW_SUFFIXES: Record<string, string> = { im: 'import', ex: 'export' };
+
+// Splits a normalized name into its flow direction (null if none) and stage
+const splitFlow = (name: string): { flow: string | null, stage: string } => {
+  const words = name.split(' ');
+  if (words.length > 1 && FLOW_PREFIXES[words[0]]) return { flow: FLOW_PREFIXES[words[0]], stage: words.slice(1).join(' ') };
+  const last = words[words.length - 1];
+  if (words.length > 1 && FLOW_SUFFIXES[last]) return { flow: FLOW_SUFFIXES[last], stage: words.slice(0, -1).join(' ') };
+  return { flow: null, stage: name };
+};
+
+// Names with different flow directions never match ("import-metal" is not a
+// misspelling of "export-metal"); otherwise only the stages are compared
+const similarity = (a: string, b: string): number => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  const fa = splitFlow(na);
+  const fb = splitFlow(nb);
+  if (fa.flow !== fb.flow) return 0;
+  if (fa.stage === fb.stage) return 1;
+  return 1 - levenshtein(fa.stage, fb.stage) / Math.max(fa.stage.length, fb.stage.length);
+};
+
+// Exact alias matches first, then the most similar remaining headers,
+// each header used at most once. Every alias of an exactly matched field is
+// taken, so that e.g. "export-metal" next to "trade-metal" is not offered to
+// another field.
+export const suggestMapping = (fields: ExpectedField[], headers: string[]): Record<string, MappingSuggestion> => {
+  const result: Record<string, MappingSuggestion> = {};
+  const used = new Set<string>();
+
+  fields.forEach(field => {
+    const header = field.aliases.find(alias => headers.includes(alias));
+    if (header) {
+      result[field.column] = { header, score: 1, exact: true };
+      field.aliases.forEach(alias => { if (headers.includes(alias)) used.add(alias); });
+    }
+  });
+
+  const candidates: { field: string, header: string, score: number }[] = [];
+  fields.forEach(field => {
+    if (result[field.column]) return;
+    headers.forEach(header => {
+      if (used.has(header)) return;
+      const score = Math.max(...field.aliases.map(alias => similarity(alias, header)));
+      if (score >= MIN_SCORE) candidates.push({ field: field.column, header, score });
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score).forEach(c => {
+    if (result[c.field] || used.has(c.header)) return;
+    result[c.field] = { header: c.header, score: c.score, exact: false };
+    used.add(c.header);
+  });
+
+  fields.forEach(field => {
+    if (!result[field.column]) result[field.column] = { header: null, score: 0, exact: false };
+  });
+  return result;
+};
+
+// The dialog is only needed when something was guessed or the year is missing
+export const needsReview = (fields: ExpectedField[], suggestion: Record<string, MappingSuggestion>): boolean =>
+  fields.some(f => {
+    const s = suggestion[f.column];
+    return (f.required && !s.header) || (!!s.header && !s.exact);
+  });
+
+// The suggested headers as a mapping, for loading without review
+export const mappingFromSuggestion = (fields: ExpectedField[], suggestion: Record<string, MappingSuggestion>): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  fields.forEach(f => { if (suggestion[f.column]?.header) mapping[f.column] = suggestion[f.column].header!; });
+  return mapping;
+};
+
+// Headers that neither feed a field nor are destination-specific export
+// columns. Uncertainty columns (_min, _max, _sd) of a mapped header are used.
+export const getUnusedHeaders = (headers: string[], mapping: ColumnMapping, model: FlowModel): string[] => {
+  const mapped = new Set(Object.values(mapping));
+  const destinations = new Set(getDestinationColumns(headers, model).map(d => d.column));
+  const isUsed = (h: string) => mapped.has(h) || destinations.has(h);
+  return headers.filter(h => {
+    const base = getRangeBase(h);
+    return !isUsed(h) && !(base !== null && isUsed(base));
+  });
+};
+
+// Renames mapped headers to their canonical column, along with their
+// uncertainty columns. Renamed source headers are dropped so that aliases
+// are not counted twice.
+export const applyColumnMapping = (rows: NdDataRow[], mapping: ColumnMapping, fields: ExpectedField[]): NdDataRow[] => {
+  const renames = fields
+    .filter(f => mapping[f.column] && !f.aliases.includes(mapping[f.column]))
+    .map(f => ({ column: f.column, header: mapping[f.column] }));
+  renames.slice().forEach(r => {
+    RANGE_SUFFIXES.forEach(suffix => {
+      if (rows.some(row => `${r.header}${suffix}` in row)) {
+        renames.push({ column: `${r.column}${suffix}`, header: `${r.header}${suffix}` });
+      }
+    });
+  });
+  if (renames.length === 0) return rows;
+
+  return rows.map(row => {
+    const out: NdDataRow = { ...row };
+    renames.forEach(r => { out[r.column] = row[r.header]; });
+    renames.forEach(r => {
+      if (!renames.some(other => other.column === r.header)) delete out[r.header];
+    });
+    return out;
+  });
+};
+
+export const getHeaders = (rows: NdDataRow[]): string[] => {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(h => headers.add(h)));
+  return Array.from(headers);
+};
+
+// --- Saved mappings (per workbook file name, in localStorage) ---
+
+interface StoredMapping {
+  headers: string[];
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+const readStore = (): Record<string, StoredMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveColumnMapping = (workbook: string, headers: string[], mapping: ColumnMapping) => {
+  const store = readStore();
+  store[workbook] = { headers, mapping, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Could not save column mapping", e);
+  }
+};
+
+// Every header the mapping refers to exists
+export const mappingFits = (mapping: ColumnMapping, headers: string[]): boolean => {
+  const available = new Set(headers);
+  return Object.values(mapping).every(h => available.has(h));
+};
+
+// A saved mapping is reused only if it still fits the headers
+export const loadColumnMapping = (workbook: string, headers: string[]): ColumnMapping | null => {
+  const saved = readStore()[workbook];
+  return saved && mappingFits(saved.mapping, headers) ? saved.mapping : null;
+};
+
+export const forgetColumnMapping = (workbook: string) => {
+  const store = readStore();
+  delete store[workbook];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Could not update saved column mappings", e);
+  }
+};
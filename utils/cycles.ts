@@ -0,0 +1,40 @@
+import { SankeyLink } from '../types';
+
+// Indices of links that close a cycle (back edges of a depth-first search
+// started from each node in model order). Removing them leaves a DAG that
+// d3-sankey can lay out; recycling flows such as End of Life -> Metal end up here.
+export const findBackEdges = (nodeCount: number, links: SankeyLink[]): Set<number> => {
+  const outgoing: number[][] = Array.from({ length: nodeCount }, () => []);
+  links.forEach((l, i) => {
+    if (typeof l.source === 'number') outgoing[l.source]?.push(i);
+  });
+
+  // 0 = unvisited, 1 = on the current path, 2 = done
+  const state = new Array(nodeCount).fill(0);
+  const backEdges = new Set<number>();
+
+  for (let root = 0; root < nodeCount; root++) {
+    if (state[root]) continue;
+    const stack: { node: number, next: number }[] = [{ node: root, next: 0 }];
+    state[root] = 1;
+
+    while (stack.length) {
+      const frame = stack[stack.length - 1];
+      const edges = outgoing[frame.node];
+      if (frame.next >= edges.length) {
+        state[frame.node] = 2;
+        stack.pop();
+        continue;
+      }
+      const linkIndex = edges[frame.next++];
+      const target = links[linkIndex].target as number;
+      if (state[target] === 1) {
+        backEdges.add(linkIndex);
+      } else if (state[target] === 0) {
+        state[target] = 1;
+        stack.push({ node: target, next: 0 });
+      }
+    }
+  }
+  return backEdges;
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getDestinationColumns, getDestinationRegions } from './destinations';
+import { processYearData } from './processData';
+import { ND_FLOW_MODEL } from './flowModels';
+import { NdDataRow } from '../types';
+
+// A 2020 row with only the given columns
+const makeRow = (columns: Record<string, number>) => ({ year: 2020, ...columns }) as unknown as NdDataRow;
+
+const exportOf = (row: NdDataRow, stage: string) => {
+  const graph = processYearData(row, ND_FLOW_MODEL);
+  const source = graph.nodes.findIndex(n => n.id === stage);
+  const target = graph.nodes.findIndex(n => n.id === 'export');
+  return graph.links.find(l => l.source === source && l.target === target);
+};
+
+describe('getDestinationColumns', () => {
+  it('does not read uncertainty columns as regions', () => {
+    const columns = ['export-metal-Japan', 'export-metal-Japan_min', 'export-metal-Japan_max', 'export-metal-Japan_sd'];
+    expect(getDestinationColumns(columns, ND_FLOW_MODEL).map(d => d.region)).toEqual(['Japan']);
+
+    const row = makeRow({ 'export-metal-Japan': 2, 'export-metal-Japan_sd': 0.5 });
+    expect(getDestinationRegions([row], ND_FLOW_MODEL)).toEqual(['Japan']);
+  });
+});
+
+describe('processYearData without a destination breakdown', () => {
+  it('adds up destination columns when the stage has no export total', () => {
+    const row = makeRow({ 'export-metal-Japan': 2, 'export-metal-China': 3, 'export-metal-China_sd': 1 });
+    const link = exportOf(row, 'metal');
+    expect(link?.realValue).toBe(5);
+    expect(link?.range).toEqual({ min: 4, max: 6, sd: 1 });
+  });
+
+  it('keeps the export total when there is one', () => {
+    const row = makeRow({ 'export-metal': 6, 'export-metal-Japan': 2 });
+    expect(exportOf(row, 'metal')?.realValue).toBe(6);
+  });
+});
+
+describe('processYearData with a destination breakdown', () => {
+  const findLink = (graph: ReturnType<typeof processYearData>, targetId: string) => {
+    const target = graph.nodes.findIndex(n => n.id === targetId);
+    return graph.links.find(l => l.target === target);
+  };
+
+  it('gives region links a share of the stage range', () => {
+    const row = makeRow({ 'export-metal': 10, 'export-metal_sd': 2, 'export-metal-Japan': 4 });
+    const graph = processYearData(row, ND_FLOW_MODEL, { exportBreakdown: 'nodes' });
+    expect(findLink(graph, 'export:Japan')?.range?.sd).toBeCloseTo(0.8);
+    expect(findLink(graph, 'export')?.range?.sd).toBeCloseTo(1.2);
+  });
+
+  it('prefers the ranges of the destination columns', () => {
+    const row = makeRow({ 'export-metal': 10, 'export-metal_sd': 2, 'export-metal-Japan': 4, 'export-metal-Japan_min': 3, 'export-metal-Japan_max': 6 });
+    const graph = processYearData(row, ND_FLOW_MODEL, { exportBreakdown: 'bands' });
+    const japan = graph.links.find(l => l.region === 'Japan');
+    expect(japan?.range).toEqual({ min: 3, max: 6 });
+  });
+});
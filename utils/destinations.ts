@@ -0,0 +1,58 @@
+import { NdDataRow, FlowModel, FlowModelLink } from '../types';
+import { getRangeBase } from './uncertainty';
+
+// Destination-specific export columns extend a stage's export column with a
+// region: "export-metal-Japan", "trade-concentrate-China". The stage may also be
+// given by its node id or name ("export-magnet-EU", "export-NdFeB Magnet-EU").
+
+const EXPORT_PREFIXES = ['export', 'trade'];
+
+// Every column prefix that names the export flow of one model link, longest first
+const getStagePrefixes = (model: FlowModel): { prefix: string, link: FlowModelLink }[] => {
+  const tradeIds = new Set(model.nodes.filter(n => n.category === 'trade').map(n => n.id));
+  const prefixes: { prefix: string, link: FlowModelLink }[] = [];
+
+  model.links.forEach(link => {
+    if (!tradeIds.has(link.target)) return;
+    const source = model.nodes.find(n => n.id === link.source);
+    const names = [...link.columns];
+    if (source) {
+      EXPORT_PREFIXES.forEach(p => names.push(`${p}-${source.id}`, `${p}-${source.name}`));
+    }
+    names.forEach(name => prefixes.push({ prefix: name.toLowerCase(), link }));
+  });
+
+  return prefixes.sort((a, b) => b.prefix.length - a.prefix.length);
+};
+
+export interface DestinationColumn {
+  column: string;
+  link: FlowModelLink; // Export link the column breaks down
+  region: string;
+}
+
+export const getDestinationColumns = (columns: string[], model: FlowModel): DestinationColumn[] => {
+  const prefixes = getStagePrefixes(model);
+  const result: DestinationColumn[] = [];
+
+  columns.forEach(column => {
+    // "export-metal-Japan_min" is the range of the Japan column, not a region
+    if (getRangeBase(column) !== null) return;
+    const lower = column.toLowerCase();
+    const match = prefixes.find(p => lower.startsWith(`${p.prefix}-`) && lower.length > p.prefix.length + 1);
+    if (!match) return;
+    const region = column.slice(match.prefix.length + 1).trim();
+    if (region) result.push({ column, link: match.link, region });
+  });
+
+  return result;
+};
+
+// All destination regions found in the data, sorted, so that colors and
+// node order stay the same in every year
+export const getDestinationRegions = (rows: NdDataRow[], model: FlowModel): string[] => {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(c => columns.add(c)));
+  const regions = new Set(getDestinationColumns(Array.from(columns), model).map(d => d.region));
+  return Array.from(regions).sort((a, b) => a.localeCompare(b));
+};
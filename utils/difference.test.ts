@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildDifferenceGraph, getRelativeChange } from './difference';
+import { GraphData } from '../types';
+
+const base: GraphData = {
+  nodes: [
+    { id: 'ore', name: 'Ore', category: 'process' },
+    { id: 'concentrate', name: 'Concentrate', category: 'process' }
+  ],
+  links: [{ source: 0, target: 1, value: 10, realValue: 10, type: 'domestic' }]
+};
+
+const target: GraphData = {
+  nodes: [
+    { id: 'ore', name: 'Ore', category: 'process' },
+    { id: 'concentrate', name: 'Concentrate', category: 'process' },
+    { id: 'export', name: 'Export', category: 'trade' }
+  ],
+  links: [
+    { source: 0, target: 1, value: 10, realValue: 10, type: 'domestic' },
+    { source: 1, target: 2, value: 4, realValue: 4, type: 'trade' }
+  ]
+};
+
+describe('buildDifferenceGraph', () => {
+  it('keeps the nodes of both years and records each change', () => {
+    const graph = buildDifferenceGraph(base, target);
+    expect(graph.nodes.map(n => n.id)).toEqual(['ore', 'concentrate', 'export']);
+
+    const [unchanged, added] = graph.links;
+    expect(unchanged.change).toEqual({ base: 10, target: 10 });
+    expect(unchanged.realValue).toBe(0);
+    expect(added.change).toEqual({ base: 0, target: 4 });
+    expect(added.value).toBe(4);
+  });
+
+  it('keeps unchanged flows visible at 0.25 kt in any display unit', () => {
+    expect(buildDifferenceGraph(base, target).links[0].value).toBe(0.25);
+    expect(buildDifferenceGraph(base, target, 't').links[0].value).toBeCloseTo(250);
+    expect(buildDifferenceGraph(base, target, 'Mt').links[0].value).toBeCloseTo(0.00025);
+  });
+
+  it('counts new flows as +100 %', () => {
+    expect(getRelativeChange({ base: 0, target: 4 })).toBe(1);
+    expect(getRelativeChange({ base: 10, target: 5 })).toBe(-0.5);
+  });
+});
@@ -0,0 +1,60 @@
+import { GraphData, SankeyNode, SankeyLink, LinkType, MassUnit } from '../types';
+import { resolveNodeId } from './massBalance';
+import { fromKt } from './units';
+
+// Same "thin line" threshold as forced-visible links in processYearData (in
+// kt), so flows that did not change stay visible in the layout
+const MIN_VISIBLE_CHANGE_KT = 0.25;
+
+// Relative change of a flow; new flows count as +100 %
+export const getRelativeChange = (change: { base: number, target: number }): number => {
+  if (change.base > 0) return (change.target - change.base) / change.base;
+  return change.target > 0 ? 1 : 0;
+};
+
+// Builds a graph whose links are the changes between two years.
+// Nodes and links present in either year are kept, matched by id, so the
+// saved layout applies unchanged. Link values are |target - base|; the
+// signed values travel in link.change. `unit` is the unit the graphs are in.
+export const buildDifferenceGraph = (base: GraphData, target: GraphData, unit: MassUnit = 'kt'): GraphData => {
+  const minVisible = fromKt(MIN_VISIBLE_CHANGE_KT, unit);
+  const nodes: SankeyNode[] = [];
+  const indexById = new Map<string, number>();
+  [...base.nodes, ...target.nodes].forEach(n => {
+    if (indexById.has(n.id)) return;
+    indexById.set(n.id, nodes.length);
+    nodes.push({ id: n.id, name: n.name, category: n.category, accumulatesStock: n.accumulatesStock, region: n.region });
+  });
+
+  // values[0] = base year, values[1] = target year
+  const flows = new Map<string, { source: string, target: string, type: LinkType, region?: string, values: [number, number] }>();
+  const collect = (graph: GraphData, slot: 0 | 1) => {
+    graph.links.forEach(l => {
+      const sId = resolveNodeId(l.source, graph.nodes);
+      const tId = resolveNodeId(l.target, graph.nodes);
+      if (!sId || !tId) return;
+      // Export sub-bands stay separate; their color comes from the change, not the region
+      const key = l.region !== undefined ? `${sId}-${tId}:${l.region}` : `${sId}-${tId}`;
+      if (!flows.has(key)) flows.set(key, { source: sId, target: tId, type: l.type, region: l.region, values: [0, 0] });
+      flows.get(key)!.values[slot] += l.realValue !== undefined ? l.realValue : l.value;
+    });
+  };
+  collect(base, 0);
+  collect(target, 1);
+
+  const links: SankeyLink[] = [];
+  flows.forEach(f => {
+    const delta = Math.abs(f.values[1] - f.values[0]);
+    links.push({
+      source: indexById.get(f.source)!,
+      target: indexById.get(f.target)!,
+      value: Math.max(delta, minVisible),
+      realValue: delta,
+      type: f.type,
+      ...(f.region !== undefined && { region: f.region }),
+      change: { base: f.values[0], target: f.values[1] }
+    });
+  });
+
+  return { nodes, links };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseDataFile, toEdgeRows } from './importData';
+import { getEdgeNodes, buildEdgeGraph, getEdgeYears } from './edgeList';
+import { EdgeRow } from '../types';
+
+const CSV = [
+  'Year,Source,Target,Value,Type,Unit,sd',
+  '2020,Mine,Refinery,1200,,t,100',
+  '2020,Refinery,Export,0.5,trade,,',
+  '2020,Refinery,Loss,0.1,loss,,',
+  '2020,Import,Refinery,0.2,import,,',
+  '2021,Mine,Refinery,1.5,,,'
+].join('\n');
+
+const parseEdges = (): EdgeRow[] => {
+  const [sheet] = parseDataFile('flows.csv', CSV);
+  if (sheet.format !== 'edges') throw new Error('expected an edge list');
+  return sheet.edges;
+};
+
+describe('edge-list import', () => {
+  it('detects an edge list and reads its optional columns', () => {
+    const edges = parseEdges();
+    expect(edges).toHaveLength(5);
+    expect(edges[0]).toEqual({ year: 2020, source: 'Mine', target: 'Refinery', value: 1200, type: 'domestic', sd: 100, unit: 't' });
+    expect(getEdgeYears(edges)).toEqual([2020, 2021]);
+  });
+
+  it('reads a CSV without source/target columns as wide data', () => {
+    const [sheet] = parseDataFile('wide.csv', 'year,domestic-ore\n2020,5');
+    expect(sheet.format).toBe('wide');
+  });
+
+  it('names the first bad row', () => {
+    expect(() => toEdgeRows([{ year: 2020, source: 'A', target: 'B', value: 1, type: 'smuggled' }]))
+      .toThrow("Row 2 has unknown type 'smuggled'");
+    expect(() => toEdgeRows([{ year: 2020, source: 'A', target: 'B', value: 1, unit: 'kg' }]))
+      .toThrow("Row 2 has unknown unit 'kg'");
+  });
+
+  it('gives boundary nodes their categories from the flow types', () => {
+    const categories = Object.fromEntries(getEdgeNodes(parseEdges()).map(n => [n.id, n.category]));
+    expect(categories).toEqual({ Mine: 'process', Refinery: 'process', Export: 'trade', Loss: 'loss', Import: 'import' });
+  });
+});
+
+describe('buildEdgeGraph', () => {
+  it('converts each row to kt and adds up repeated flows', () => {
+    const edges = [
+      ...parseEdges(),
+      { year: 2020, source: 'Mine', target: 'Refinery', value: 0.3, type: 'domestic' } as EdgeRow
+    ];
+    const graph = buildEdgeGraph(edges, 2020);
+    const mine = graph.nodes.findIndex(n => n.id === 'Mine');
+    const link = graph.links.find(l => l.source === mine)!;
+    expect(link.value).toBeCloseTo(1.5);
+    expect(link.range?.sd).toBeCloseTo(0.1);
+  });
+
+  it('leaves out nodes without flows in that year', () => {
+    const graph = buildEdgeGraph(parseEdges(), 2021);
+    expect(graph.nodes.map(n => n.id)).toEqual(['Mine', 'Refinery']);
+  });
+});
@@ -0,0 +1,116 @@
+import { EdgeRow, GraphData, SankeyNode, SankeyLink, NodeCategory, YearAggregation, FlowRange, DataUnits } from '../types';
+import { makeRange, sumRanges, absRange } from './uncertainty';
+import { toKt } from './units';
+
+// Edge lists bypass processYearData: nodes come from the source/target names,
+// links from the rows of one year.
+
+export const getEdgeYears = (edges: EdgeRow[]): number[] =>
+  Array.from(new Set(edges.map(e => e.year))).sort((a, b) => a - b);
+
+// Nodes in order of first appearance, so that every year lays out alike.
+// Categories follow the flow types: pure import sources, and targets that
+// only receive losses or exports, are drawn like their Nd model counterparts.
+export const getEdgeNodes = (edges: EdgeRow[]): SankeyNode[] => {
+  const order: string[] = [];
+  const incoming = new Map<string, Set<string>>();
+  const outgoing = new Map<string, Set<string>>();
+  const note = (map: Map<string, Set<string>>, id: string, type: string) => {
+    if (!map.has(id)) map.set(id, new Set());
+    map.get(id)!.add(type);
+  };
+
+  edges.forEach(e => {
+    [e.source, e.target].forEach(id => { if (!order.includes(id)) order.push(id); });
+    note(outgoing, e.source, e.type);
+    note(incoming, e.target, e.type);
+  });
+
+  const only = (types: Set<string> | undefined, type: string) => !!types && types.size === 1 && types.has(type);
+
+  return order.map(id => {
+    const ins = incoming.get(id);
+    const outs = outgoing.get(id);
+    let category: NodeCategory = 'process';
+    if (!ins && only(outs, 'import')) category = 'import';
+    else if (!outs && only(ins, 'loss')) category = 'loss';
+    else if (!outs && only(ins, 'trade')) category = 'trade';
+    else if (outs?.has('recycled')) category = 'end_of_life';
+    return { id, name: id, category };
+  });
+};
+
+// Graph of one year, in kt. Rows repeating a source/target/type are added up,
+// together with their ranges; nodes without flows in this year are left out.
+// Rows without a unit are in the default data unit (kt without `units`).
+export const buildEdgeGraph = (
+  edges: EdgeRow[],
+  year: number,
+  nodes: SankeyNode[] = getEdgeNodes(edges),
+  units?: DataUnits
+): GraphData => {
+  const groups = new Map<string, { edge: EdgeRow, parts: { value: number, range?: FlowRange }[] }>();
+  edges.forEach(e => {
+    if (e.year !== year) return;
+    const key = `${e.source}\u0000${e.target}\u0000${e.type}`;
+    const k = toKt(1, e.unit || units?.default || 'kt');
+    const scale = (v?: number) => v === undefined ? undefined : v * k;
+    const part = { value: e.value * k, range: makeRange(e.value * k, scale(e.min), scale(e.max), scale(e.sd)) };
+    const entry = groups.get(key);
+    if (entry) entry.parts.push(part);
+    else groups.set(key, { edge: e, parts: [part] });
+  });
+
+  const totals = new Map<string, { edge: EdgeRow, value: number, range?: FlowRange }>();
+  groups.forEach(({ edge, parts }, key) => {
+    const value = parts.reduce((sum, p) => sum + p.value, 0);
+    totals.set(key, { edge, value, range: sumRanges(parts) });
+  });
+
+  const used = new Set<string>();
+  totals.forEach(({ edge, value }) => {
+    if (Math.abs(value) <= 0.001) return;
+    used.add(edge.source);
+    used.add(edge.target);
+  });
+
+  const yearNodes = nodes.filter(n => used.has(n.id)).map(n => ({ ...n }));
+  const indexById = new Map<string, number>();
+  yearNodes.forEach((n, i) => indexById.set(n.id, i));
+
+  const links: SankeyLink[] = [];
+  totals.forEach(({ edge, value, range }) => {
+    const absValue = Math.abs(value);
+    if (absValue <= 0.001) return;
+    links.push({
+      source: indexById.get(edge.source)!,
+      target: indexById.get(edge.target)!,
+      value: absValue,
+      realValue: absValue,
+      type: edge.type,
+      ...(range && { range: absRange(value, range) })
+    });
+  });
+
+  return { nodes: yearNodes, links };
+};
+
+// Edge-list counterpart of aggregateRows: one set of edges, dated to the end
+// of the period, holding the total or the mean per year of the period
+export const aggregateEdges = (edges: EdgeRow[], period: YearAggregation): EdgeRow[] => {
+  const from = Math.min(period.from, period.to);
+  const to = Math.max(period.from, period.to);
+  const selected = edges.filter(e => e.year >= from && e.year <= to);
+  const yearCount = new Set(selected.map(e => e.year)).size;
+  if (yearCount === 0) return [];
+
+  const scale = (v?: number) => v === undefined || period.method !== 'mean' ? v : v / yearCount;
+  return selected.map(e => ({
+    ...e,
+    year: to,
+    value: scale(e.value)!,
+    min: scale(e.min),
+    max: scale(e.max),
+    sd: scale(e.sd)
+  }));
+};
@@ -0,0 +1,142 @@
+import { FlowModel, FlowModelNode, FlowModelLink, NodeCategory, LinkType } from '../types';
+
+// Built-in Nd model, matching the flow chain of the paper (Figure S8).
+// Trade flows from every stage are collected in the single Export node,
+// flows from abroad enter each stage from the single Import node.
+export const ND_FLOW_MODEL: FlowModel = {
+  id: 'nd',
+  name: 'Neodymium (Nd)',
+  nodes: [
+    { name: 'Ore', id: 'ore', category: 'process' },
+    { name: 'Concentrate', id: 'concentrate', category: 'process' },
+    { name: 'Metal', id: 'metal', category: 'process' },
+    { name: 'NdFeB Magnet', id: 'magnet', category: 'process' },
+    { name: 'Other Semi-products', id: 'other_semi', category: 'process' },
+    { name: 'Wind Turbine', id: 'wind_turbine', category: 'process', accumulatesStock: true },
+    { name: 'Other Final Products', id: 'other_final', category: 'process', accumulatesStock: true },
+    { name: 'Loss', id: 'loss', category: 'loss' },
+    { name: 'Export', id: 'export', category: 'trade' },
+    { name: 'Import', id: 'import', category: 'import' },
+    { name: 'End of Life', id: 'eol', category: 'end_of_life' }
+  ],
+  links: [
+    // 1. Ore Stage
+    { source: 'ore', target: 'concentrate', type: 'domestic', columns: ['domestic-ore'] },
+
+    // 2. Concentrate Stage (Beneficiation)
+    // Support both 'trade-' and 'export-' prefixes
+    { source: 'concentrate', target: 'export', type: 'trade', columns: ['trade-concentrate', 'export-concentrate'] },
+    { source: 'concentrate', target: 'loss', type: 'loss', columns: ['loss-concentrate'] },
+    { source: 'concentrate', target: 'metal', type: 'domestic', columns: ['domestic-concentrate'] },
+
+    // 3. Metal Stage (Refining)
+    { source: 'metal', target: 'export', type: 'trade', columns: ['trade-metal', 'export-metal'] },
+    { source: 'metal', target: 'loss', type: 'loss', columns: ['loss-metal'] },
+    // 'domestic-metal' is flow Metal -> Magnet
+    { source: 'metal', target: 'magnet', type: 'domestic', columns: ['domestic-metal'] },
+    // 'domestic-other semi-products' is flow Metal -> Other Semi
+    { source: 'metal', target: 'other_semi', type: 'domestic', columns: ['domestic-other semi-products'] },
+
+    // 4. Semi-Products Stage (Fabrication)
+    { source: 'magnet', target: 'export', type: 'trade', columns: ['permanent magnets-ex(kt)', 'trade-permenent magnets', 'export-permenent magnets'] },
+    { source: 'magnet', target: 'loss', type: 'loss', columns: ['loss-permenent magnets'] },
+    { source: 'other_semi', target: 'export', type: 'trade', columns: ['export-other semi-products'] },
+    // 'domestic-permenent magnets' is flow Magnet -> Wind Turbine
+    { source: 'magnet', target: 'wind_turbine', type: 'domestic', columns: ['domestic-permenent magnets'] },
+    { source: 'magnet', target: 'other_final', type: 'domestic', columns: ['domestic-other finalproducts'] },
+    // Other Semi -> Other Final Products carries the same amount as its input
+    { source: 'other_semi', target: 'other_final', type: 'domestic', columns: ['domestic-other semi-products'] },
+
+    // 5. Final Products Stage
+    { source: 'wind_turbine', target: 'export', type: 'trade', columns: ['trade-wind turbine', 'export-wind turbine'] },
+    { source: 'other_final', target: 'export', type: 'trade', columns: ['export-other finalproducts'] },
+
+    // --- Import Flows (into the matching stage) ---
+    { source: 'import', target: 'concentrate', type: 'import', columns: ['import-concentrate', 'concentrate-im', 'concentrate-im(kt)'] },
+    { source: 'import', target: 'metal', type: 'import', columns: ['import-metal', 'metal-im', 'metal-im(kt)'] },
+    { source: 'import', target: 'magnet', type: 'import', columns: ['permanent magnets-im(kt)', 'import-permenent magnets', 'import-permanent magnets'] },
+    { source: 'import', target: 'other_semi', type: 'import', columns: ['import-other semi-products', 'other semi-products-im', 'other semi-products-im(kt)'] },
+    { source: 'import', target: 'wind_turbine', type: 'import', columns: ['import-wind turbine', 'wind turbine-im', 'wind turbine-im(kt)'] },
+    { source: 'import', target: 'other_final', type: 'import', columns: ['import-other finalproducts', 'other finalproducts-im', 'other finalproducts-im(kt)'] },
+
+    // --- End of Life Flows (forced visible) ---
+    { source: 'wind_turbine', target: 'eol', type: 'domestic', columns: ['Wind Turbine outflow'], forceVisible: true },
+    { source: 'other_final', target: 'eol', type: 'domestic', columns: ['Others outflow'], forceVisible: true },
+    // Check 'end of life' column first, then 'end of life to loss'
+    { source: 'eol', target: 'loss', type: 'loss', columns: ['end of life', 'end of life to loss'], combine: 'first', forceVisible: true },
+
+    // --- Recycling (back into production; drawn as loops around the diagram) ---
+    { source: 'eol', target: 'metal', type: 'recycled', columns: ['recycled-metal'] },
+    { source: 'eol', target: 'magnet', type: 'recycled', columns: ['recycled-magnet', 'recycled-magnets'] }
+  ]
+};
+
+const NODE_CATEGORIES: NodeCategory[] = ['process', 'trade', 'import', 'loss', 'end_of_life'];
+export const LINK_TYPES: LinkType[] = ['domestic', 'trade', 'import', 'loss', 'recycled'];
+
+// Validates an untrusted (e.g. uploaded JSON) flow model definition.
+// Throws an Error with a readable message on the first problem found.
+export const parseFlowModel = (input: unknown): FlowModel => {
+  if (!input || typeof input !== 'object') {
+    throw new Error("Flow model must be a JSON object.");
+  }
+  const raw = input as Record<string, any>;
+
+  if (!Array.isArray(raw.nodes) || raw.nodes.length === 0) {
+    throw new Error("Flow model needs a non-empty 'nodes' array.");
+  }
+  if (!Array.isArray(raw.links)) {
+    throw new Error("Flow model needs a 'links' array.");
+  }
+
+  const ids = new Set<string>();
+  const nodes: FlowModelNode[] = raw.nodes.map((n: any, i: number) => {
+    if (typeof n?.id !== 'string' || !n.id) {
+      throw new Error(`Node #${i + 1} is missing an 'id'.`);
+    }
+    if (ids.has(n.id)) {
+      throw new Error(`Duplicate node id '${n.id}'.`);
+    }
+    if (!NODE_CATEGORIES.includes(n.category)) {
+      throw new Error(`Node '${n.id}' has invalid category '${n.category}'.`);
+    }
+    ids.add(n.id);
+    return {
+      id: n.id,
+      name: typeof n.name === 'string' ? n.name : n.id,
+      category: n.category,
+      accumulatesStock: !!n.accumulatesStock
+    };
+  });
+
+  const links: FlowModelLink[] = raw.links.map((l: any, i: number) => {
+    const label = `Link #${i + 1}`;
+    if (!ids.has(l?.source) || !ids.has(l?.target)) {
+      throw new Error(`${label} references an unknown node ('${l?.source}' → '${l?.target}').`);
+    }
+    if (!LINK_TYPES.includes(l.type)) {
+      throw new Error(`${label} has invalid type '${l.type}'.`);
+    }
+    if (!Array.isArray(l.columns) || l.columns.length === 0 || l.columns.some((c: any) => typeof c !== 'string')) {
+      throw new Error(`${label} needs a 'columns' array of column names.`);
+    }
+    if (l.combine !== undefined && l.combine !== 'sum' && l.combine !== 'first') {
+      throw new Error(`${label} has invalid combine mode '${l.combine}'.`);
+    }
+    return {
+      source: l.source,
+      target: l.target,
+      type: l.type,
+      columns: l.columns,
+      combine: l.combine,
+      forceVisible: !!l.forceVisible
+    };
+  });
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id : 'custom',
+    name: typeof raw.name === 'string' ? raw.name : 'Custom Model',
+    nodes,
+    links
+  };
+};
@@ -0,0 +1,146 @@
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { ExportSettings, RasterFormat } from '../types';
+
+export const RASTER_MIME: Record<RasterFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export const RASTER_EXTENSION: Record<RasterFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp'
+};
+
+// Page sizes in pt (portrait)
+const PDF_PAGE_SIZES: Record<Exclude<ExportSettings['pdfPageSize'], 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  a3: [841.89, 1190.55],
+  letter: [612, 792]
+};
+
+export const PDF_MARGIN = 20;
+export const PX_TO_PT = 0.75; // CSS px at 96 dpi
+
+export const canBeTransparent = (format: RasterFormat) => format !== 'jpeg';
+
+// Draws SVG markup onto a canvas at the requested DPI and encodes it
+export const rasterizeSvg = (
+  markup: string,
+  width: number,
+  height: number,
+  options: ExportSettings
+): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }));
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+
+  img.onload = () => {
+    const scale = options.dpi / 96;
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      URL.revokeObjectURL(url);
+      reject(new Error("Canvas is not available."));
+      return;
+    }
+
+    // JPEG has no alpha channel, so it always gets a white background
+    if (!options.transparent || !canBeTransparent(options.rasterFormat)) {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0, width, height);
+    URL.revokeObjectURL(url);
+
+    try {
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob);
+        else reject(new Error("Browser could not encode the image."));
+      }, RASTER_MIME[options.rasterFormat], options.quality);
+    } catch (e) {
+      // Tainted canvas (browser security)
+      reject(e);
+    }
+  };
+
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("Failed to render SVG."));
+  };
+
+  img.src = url;
+});
+
+// Page size in pt for the chosen format and orientation
+export const getPdfPageSize = (options: ExportSettings, width: number, height: number): [number, number] => {
+  if (options.pdfPageSize === 'fit') {
+    return [width * PX_TO_PT + PDF_MARGIN * 2, height * PX_TO_PT + PDF_MARGIN * 2];
+  }
+  const [short, long] = PDF_PAGE_SIZES[options.pdfPageSize];
+  return options.pdfOrientation === 'landscape' ? [long, short] : [short, long];
+};
+
+export const createPdf = (options: ExportSettings, width: number, height: number): jsPDF => {
+  const [pageW, pageH] = getPdfPageSize(options, width, height);
+  return new jsPDF({
+    orientation: pageW > pageH ? 'landscape' : 'portrait',
+    unit: 'pt',
+    format: [pageW, pageH]
+  });
+};
+
+// Renders SVG markup into the current PDF page, scaled to fit inside the margins
+// (below topOffset pt) without distorting the aspect ratio.
+export const drawSvgOnPdfPage = async (
+  doc: jsPDF,
+  markup: string,
+  width: number,
+  height: number,
+  topOffset: number = 0
+) => {
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const availW = pageW - PDF_MARGIN * 2;
+  const availH = pageH - PDF_MARGIN * 2 - topOffset;
+  const fit = Math.min(availW / width, availH / height);
+  const drawW = width * fit;
+  const drawH = height * fit;
+
+  // svg2pdf needs an attached element to resolve styles
+  const svgEl = new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+  const host = document.createElement('div');
+  host.style.position = 'absolute';
+  host.style.left = '-10000px';
+  host.appendChild(document.importNode(svgEl, true));
+  document.body.appendChild(host);
+
+  try {
+    await svg2pdf(host.firstElementChild as SVGElement, doc, {
+      x: (pageW - drawW) / 2,
+      y: PDF_MARGIN + topOffset + (availH - drawH) / 2,
+      width: drawW,
+      height: drawH
+    });
+  } finally {
+    document.body.removeChild(host);
+  }
+};
+
+export const renderPdf = async (
+  markup: string,
+  width: number,
+  height: number,
+  options: ExportSettings
+): Promise<Blob> => {
+  const doc = createPdf(options, width, height);
+  await drawSvgOnPdfPage(doc, markup, width, height);
+  return doc.output('blob');
+};
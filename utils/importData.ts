@@ -0,0 +1,232 @@
+import * as XLSX from 'xlsx';
+import { NdDataRow, EdgeRow, LinkType } from '../types';
+import { LINK_TYPES } from './flowModels';
+import { parseMassUnit } from './units';
+
+// Data files are either wide (one row per year, one column per flow, read
+// through the flow model) or long edge lists (year, source, target, value, type).
+
+export const DATA_FILE_ACCEPT = '.xlsx,.xls,.csv,.tsv,.txt,.json';
+
+export type ParsedDataFile =
+  | { format: 'wide', rows: NdDataRow[] }
+  | { format: 'edges', edges: EdgeRow[] };
+
+// One sheet of a workbook (e.g. a region or scenario); text files have a
+// single sheet named after the file
+export type DataSheet = ParsedDataFile & { name: string };
+
+type DataFileKind = 'excel' | 'csv' | 'tsv' | 'json';
+
+const getFileKind = (fileName: string): DataFileKind => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'tsv' || ext === 'txt') return 'tsv';
+  if (ext === 'json') return 'json';
+  return 'excel';
+};
+
+// Excel is read as a binary string, everything else as text
+export const readsAsText = (fileName: string): boolean => getFileKind(fileName) !== 'excel';
+
+// Numbers stay numbers, blanks become undefined, anything else stays text
+const parseCell = (cell: string): string | number | undefined => {
+  const trimmed = cell.trim();
+  if (trimmed === '') return undefined;
+  const num = Number(trimmed);
+  return Number.isFinite(num) ? num : trimmed;
+};
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter: string): Record<string, any>[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+  const headers = nonEmpty[0].map(h => h.trim());
+
+  return nonEmpty.slice(1).map(cells => {
+    const row: Record<string, any> = {};
+    headers.forEach((header, i) => {
+      if (!header) return;
+      const value = parseCell(cells[i] ?? '');
+      if (value !== undefined) row[header] = value;
+    });
+    return row;
+  });
+};
+
+const EDGE_COLUMNS = ['year', 'source', 'target', 'value'];
+
+// Case-insensitive lookup of the edge-list columns in one row
+const findColumn = (row: Record<string, any>, name: string): string | undefined =>
+  Object.keys(row).find(k => k.trim().toLowerCase() === name);
+
+export const isEdgeList = (rows: Record<string, any>[]): boolean =>
+  rows.length > 0 && EDGE_COLUMNS.every(c => findColumn(rows[0], c) !== undefined);
+
+// Validates edge-list rows. Throws an Error naming the first bad row.
+// Blank values count as 0; a missing type means a domestic flow. Optional
+// min, max and sd columns give the uncertainty of the value, an optional
+// unit column (t, kt, Mt) its unit.
+export const toEdgeRows = (rows: Record<string, any>[]): EdgeRow[] => {
+  const edges: EdgeRow[] = [];
+  rows.forEach((row, i) => {
+    const cell = (name: string) => {
+      const key = findColumn(row, name);
+      return key === undefined ? undefined : row[key];
+    };
+    const label = `Row ${i + 2}`; // 1-based, after the header row
+
+    const source = String(cell('source') ?? '').trim();
+    const target = String(cell('target') ?? '').trim();
+    if (!source && !target) return;
+    if (!source || !target) {
+      throw new Error(`${label} needs both a source and a target.`);
+    }
+
+    const year = Number(cell('year'));
+    if (!Number.isFinite(year)) {
+      throw new Error(`${label} has no valid year.`);
+    }
+
+    const rawValue = cell('value');
+    const value = rawValue === undefined || rawValue === '' ? 0 : Number(rawValue);
+    if (!Number.isFinite(value)) {
+      throw new Error(`${label} has a non-numeric value '${rawValue}'.`);
+    }
+
+    const bounds: Partial<Record<'min' | 'max' | 'sd', number>> = {};
+    (['min', 'max', 'sd'] as const).forEach(name => {
+      const raw = cell(name);
+      if (raw === undefined || raw === '') return;
+      const num = Number(raw);
+      if (!Number.isFinite(num)) {
+        throw new Error(`${label} has a non-numeric ${name} '${raw}'.`);
+      }
+      bounds[name] = num;
+    });
+
+    const rawType = String(cell('type') ?? '').trim().toLowerCase();
+    const type = (rawType || 'domestic') as LinkType;
+    if (!LINK_TYPES.includes(type)) {
+      throw new Error(`${label} has unknown type '${rawType}'. Use one of: ${LINK_TYPES.join(', ')}.`);
+    }
+
+    const rawUnit = cell('unit');
+    const unit = rawUnit === undefined || rawUnit === '' ? null : parseMassUnit(rawUnit);
+    if (unit === null && rawUnit !== undefined && rawUnit !== '') {
+      throw new Error(`${label} has unknown unit '${rawUnit}'. Use t, kt or Mt.`);
+    }
+
+    edges.push({ year, source, target, value, type, ...bounds, ...(unit && { unit }) });
+  });
+
+  if (edges.length === 0) {
+    throw new Error("The edge list has no flows.");
+  }
+  return edges;
+};
+
+// JSON data is an array of rows, or an object holding one under "edges",
+// "rows" or "data"
+const readJsonRows = (text: string): Record<string, any>[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const rows = Array.isArray(raw) ? raw : raw && (raw.edges || raw.rows || raw.data);
+  if (!Array.isArray(rows) || rows.some(r => !r || typeof r !== 'object' || Array.isArray(r))) {
+    throw new Error("Expected a JSON array of row objects.");
+  }
+  return rows;
+};
+
+const toParsedData = (rows: Record<string, any>[]): ParsedDataFile =>
+  isEdgeList(rows)
+    ? { format: 'edges', edges: toEdgeRows(rows) }
+    : { format: 'wide', rows: rows as NdDataRow[] };
+
+// Every workbook sheet with a year column is data; notes, charts and lookup
+// tables are skipped. Without any such sheet the first one is returned, so
+// that its year column can be assigned in the column mapping.
+const readWorkbookSheets = (content: string): DataSheet[] => {
+  const wb = XLSX.read(content, { type: 'binary' });
+  const sheets = wb.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<Record<string, any>>(wb.Sheets[name])
+  }));
+  const withYear = sheets.filter(s => s.rows.length > 0 && findColumn(s.rows[0], 'year') !== undefined);
+  const selected = withYear.length > 0 ? withYear : sheets.slice(0, 1).filter(s => s.rows.length > 0);
+  if (selected.length === 0) {
+    throw new Error("No data found in the file.");
+  }
+
+  return selected.map(s => {
+    try {
+      return { name: s.name, ...toParsedData(s.rows) };
+    } catch (err) {
+      throw new Error(`Sheet '${s.name}': ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+};
+
+// Parses any supported data file. `content` is a binary string for Excel
+// files and text otherwise (see readsAsText). Throws an Error with a
+// user-facing message.
+export const parseDataFile = (fileName: string, content: string): DataSheet[] => {
+  const kind = getFileKind(fileName);
+  if (kind === 'excel') return readWorkbookSheets(content);
+
+  let rows: Record<string, any>[];
+  if (kind === 'json') {
+    rows = readJsonRows(content);
+  } else {
+    // .tsv/.txt files fall back to commas when the header line has no tabs
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = kind === 'tsv' && firstLine.includes('\t') ? '\t' : ',';
+    rows = parseDelimited(content, delimiter);
+  }
+
+  if (!rows || rows.length === 0) {
+    throw new Error("No data found in the file.");
+  }
+  return [{ name: fileName, ...toParsedData(rows) }];
+};
@@ -0,0 +1,182 @@
+import { GraphData, NdDataRow, IndicatorSeries } from '../types';
+import { resolveNodeId } from './massBalance';
+
+// Standard MFA indicators per year, computed from the model graphs. All values
+// are shares (0..1); null where a year lacks the flows an indicator needs.
+
+// Nd model nodes used by the magnet-use indicator
+const MAGNET_ID = 'magnet';
+const WIND_TURBINE_ID = 'wind_turbine';
+const FINAL_PRODUCT_IDS = ['wind_turbine', 'other_final'];
+
+// Data column with the reported wind-turbine share of magnet use
+const PM_SHARE_COLUMN = 'share of PM';
+
+// Computed and reported magnet shares further apart than this are flagged
+export const PM_SHARE_TOLERANCE = 0.01;
+
+interface FlowTotals {
+  inflow: Map<string, number>;
+  outflow: Map<string, number>;
+  byType: Map<string, Map<string, number>>; // Outflow per node and link type
+  pairs: Map<string, number>; // "source\u0000target"
+}
+
+const getFlowTotals = (graph: GraphData): FlowTotals => {
+  const totals: FlowTotals = { inflow: new Map(), outflow: new Map(), byType: new Map(), pairs: new Map() };
+  const add = (map: Map<string, number>, key: string, val: number) => map.set(key, (map.get(key) || 0) + val);
+
+  graph.links.forEach(l => {
+    // Use the data value, not the forced-visible layout value
+    const val = l.realValue !== undefined ? l.realValue : l.value;
+    const sId = resolveNodeId(l.source, graph.nodes);
+    const tId = resolveNodeId(l.target, graph.nodes);
+    if (!sId || !tId) return;
+    add(totals.outflow, sId, val);
+    add(totals.inflow, tId, val);
+    if (!totals.byType.has(sId)) totals.byType.set(sId, new Map());
+    add(totals.byType.get(sId)!, l.type, val);
+    add(totals.pairs, `${sId}\u0000${tId}`, val);
+  });
+  return totals;
+};
+
+const share = (part: number, whole: number): number | null => whole > 1e-9 ? part / whole : null;
+
+// Material entering a stage; sources without inflow count their outflow
+const getThroughput = (totals: FlowTotals, id: string): number =>
+  totals.inflow.get(id) || totals.outflow.get(id) || 0;
+
+// "share of PM" may be given as a fraction or in percent
+const readReportedShare = (row: NdDataRow | undefined): number | null => {
+  const raw: unknown = row?.[PM_SHARE_COLUMN];
+  if (raw === undefined || raw === null || raw === '') return null;
+  const num = Number(raw);
+  if (!Number.isFinite(num)) return null;
+  return num > 1 ? num / 100 : num;
+};
+
+interface IndicatorDefinition {
+  key: string;
+  label: string;
+  description: string;
+  compute: (graph: GraphData, totals: FlowTotals, row?: NdDataRow) => number | null;
+}
+
+const buildDefinitions = (frames: { graph: GraphData }[]): IndicatorDefinition[] => {
+  const definitions: IndicatorDefinition[] = [
+    {
+      key: 'loss-share',
+      label: 'Total loss share',
+      description: 'Losses of all stages (e.g. Concentrate, Metal, Magnet, End of Life) relative to the primary input (mining and imports)',
+      compute: (graph, totals) => {
+        const lossIds = new Set(graph.nodes.filter(n => n.category === 'loss').map(n => n.id));
+        let losses = 0;
+        totals.inflow.forEach((val, id) => { if (lossIds.has(id)) losses += val; });
+        let input = 0;
+        totals.outflow.forEach((val, id) => { if (!totals.inflow.has(id)) input += val; });
+        return share(losses, input);
+      }
+    }
+  ];
+
+  // One export share per stage that exports in any year, in model order
+  const exportStages = new Map<string, string>();
+  frames.forEach(({ graph }) => {
+    const totals = getFlowTotals(graph);
+    graph.nodes.forEach(n => {
+      if (totals.byType.get(n.id)?.get('trade')) exportStages.set(n.id, n.name);
+    });
+  });
+  exportStages.forEach((name, id) => {
+    definitions.push({
+      key: `export-share:${id}`,
+      label: `Export share: ${name}`,
+      description: `Exports from ${name} relative to its throughput`,
+      compute: (graph, totals) => graph.nodes.some(n => n.id === id)
+        ? share(totals.byType.get(id)?.get('trade') || 0, getThroughput(totals, id))
+        : null
+    });
+  });
+
+  definitions.push(
+    {
+      key: 'wind-turbine-share',
+      label: 'Wind-turbine share of magnet use',
+      description: 'Magnets going into wind turbines relative to all domestically used magnets',
+      compute: (graph, totals) => {
+        const used = FINAL_PRODUCT_IDS.reduce((sum, id) => sum + (totals.pairs.get(`${MAGNET_ID}\u0000${id}`) || 0), 0);
+        return share(totals.pairs.get(`${MAGNET_ID}\u0000${WIND_TURBINE_ID}`) || 0, used);
+      }
+    },
+    {
+      key: 'reported-pm-share',
+      label: `Reported ${PM_SHARE_COLUMN}`,
+      description: `The "${PM_SHARE_COLUMN}" data column, to cross-check the wind-turbine share`,
+      compute: (graph, totals, row) => readReportedShare(row)
+    },
+    {
+      key: 'eol-loss-ratio',
+      label: 'End-of-life loss ratio',
+      description: 'End-of-life material lost rather than recycled',
+      compute: (graph, totals) => {
+        const eolIds = graph.nodes.filter(n => n.category === 'end_of_life').map(n => n.id);
+        const lost = eolIds.reduce((sum, id) => sum + (totals.byType.get(id)?.get('loss') || 0), 0);
+        const inflow = eolIds.reduce((sum, id) => sum + (totals.inflow.get(id) || 0), 0);
+        return share(lost, inflow);
+      }
+    }
+  );
+  return definitions;
+};
+
+// Indicator series over the sorted years. `rows` are the wide data rows (empty
+// for edge lists); indicators without a value in any year are left out.
+export const computeIndicators = (
+  frames: { year: number, graph: GraphData }[],
+  rows: NdDataRow[]
+): IndicatorSeries[] => {
+  const rowsByYear = new Map(rows.map(r => [Number(r.year), r]));
+  const totals = frames.map(({ graph }) => getFlowTotals(graph));
+
+  return buildDefinitions(frames)
+    .map(def => ({
+      key: def.key,
+      label: def.label,
+      description: def.description,
+      values: frames.map(({ year, graph }, i) => ({
+        year,
+        value: def.compute(graph, totals[i], rowsByYear.get(year))
+      }))
+    }))
+    .filter(series => series.values.some(v => v.value !== null));
+};
+
+// Years in which the computed wind-turbine share disagrees with the data column
+export const getPmShareMismatches = (indicators: IndicatorSeries[]): number[] => {
+  const computed = indicators.find(s => s.key === 'wind-turbine-share');
+  const reported = indicators.find(s => s.key === 'reported-pm-share');
+  if (!computed || !reported) return [];
+  return computed.values
+    .filter((v, i) => {
+      const other = reported.values[i]?.value;
+      return v.value !== null && other !== null && other !== undefined && Math.abs(v.value - other) > PM_SHARE_TOLERANCE;
+    })
+    .map(v => v.year);
+};
+
+const csvField = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One row per indicator, one column per year, values in percent
+export const indicatorsToCsv = (indicators: IndicatorSeries[]): string => {
+  const years = indicators.length ? indicators[0].values.map(v => v.year) : [];
+  const lines = [
+    ['Indicator', 'Unit', ...years.map(String)].map(csvField).join(','),
+    ...indicators.map(s => [
+      csvField(s.label),
+      '%',
+      ...s.values.map(v => v.value === null ? '' : (v.value * 100).toFixed(2))
+    ].join(','))
+  ];
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { validateMassBalance, getBalancedNodeIds } from './massBalance';
+import { processYearData } from './processData';
+import { ND_FLOW_MODEL } from './flowModels';
+import { NdDataRow } from '../types';
+
+const balancedIds = getBalancedNodeIds(ND_FLOW_MODEL.nodes, ND_FLOW_MODEL.links);
+
+const checkYear = (columns: Record<string, number>) =>
+  validateMassBalance(processYearData({ year: 2020, ...columns } as unknown as NdDataRow, ND_FLOW_MODEL), 2020, balancedIds);
+
+describe('validateMassBalance', () => {
+  it('checks stages by their role in the model', () => {
+    expect(balancedIds.has('ore')).toBe(false); // Source
+    expect(balancedIds.has('wind_turbine')).toBe(false); // In-use stock
+    expect(balancedIds.has('export')).toBe(false);
+    expect(balancedIds.has('metal')).toBe(true);
+    expect(balancedIds.has('eol')).toBe(true);
+  });
+
+  it('flags a stage that receives material but emits none in that year', () => {
+    const issues = checkYear({ 'domestic-ore': 10, 'domestic-concentrate': 10 });
+    expect(issues.map(i => i.nodeId)).toEqual(['metal']);
+    expect(issues[0].gap).toBe(10);
+  });
+
+  it('flags a stage that emits material without receiving any', () => {
+    const issues = checkYear({ 'domestic-metal': 4, 'domestic-permenent magnets': 4 });
+    expect(issues.map(i => i.nodeId)).toEqual(['metal']);
+    expect(issues[0].gap).toBe(-4);
+  });
+});
@@ -0,0 +1,99 @@
+import { GraphData, SankeyNode, SankeyLink, MassBalanceIssue, NodeCategory, FlowModelNode } from '../types';
+
+// Gaps below either threshold are treated as rounding noise
+export const BALANCE_TOLERANCE = {
+  absolute: 0.01, // kt
+  relative: 0.005 // 0.5 %
+};
+
+// Links may reference nodes by index, id or (after layout) by object
+export const resolveNodeId = (ref: SankeyLink['source'], nodes: SankeyNode[]): string | undefined => {
+  if (typeof ref === 'number') return nodes[ref]?.id;
+  if (typeof ref === 'string') return ref;
+  return ref?.id;
+};
+
+// Imports, losses, exports and stocks are system boundaries, not stages
+const BOUNDARY_CATEGORIES: NodeCategory[] = ['import', 'loss', 'trade', 'stock'];
+
+// Nodes that must balance: stages that both receive and emit material in the
+// flow model (or edge list), so that a stage whose inflow or outflow is
+// missing in some year is still checked. Pure sources such as the ore, sinks
+// and in-use stock nodes are skipped.
+export const getBalancedNodeIds = (
+  nodes: Pick<FlowModelNode, 'id' | 'category' | 'accumulatesStock'>[],
+  links: { source: string, target: string }[]
+): Set<string> => {
+  const sources = new Set(links.map(l => l.source));
+  const targets = new Set(links.map(l => l.target));
+  return new Set(nodes
+    .filter(n => !BOUNDARY_CATEGORIES.includes(n.category) && !n.accumulatesStock)
+    .filter(n => sources.has(n.id) && targets.has(n.id))
+    .map(n => n.id));
+};
+
+type FlowTotal = { value: number, min: number, max: number, uncertain: boolean };
+
+const NO_FLOW: FlowTotal = { value: 0, min: 0, max: 0, uncertain: false };
+
+// Checks inflow = outflow (+ losses, exports) at every balanced node (see
+// getBalancedNodeIds). With uncertainty ranges a node only fails when no
+// combination of flows within their ranges closes the gap.
+export const validateMassBalance = (
+  graph: GraphData,
+  year: number,
+  balancedIds: Set<string>,
+  tolerance = BALANCE_TOLERANCE
+): MassBalanceIssue[] => {
+  const inflow = new Map<string, FlowTotal>();
+  const outflow = new Map<string, FlowTotal>();
+
+  const add = (totals: Map<string, FlowTotal>, id: string, l: SankeyLink, val: number) => {
+    const t = totals.get(id) || { value: 0, min: 0, max: 0, uncertain: false };
+    t.value += val;
+    t.min += l.range ? l.range.min : val;
+    t.max += l.range ? l.range.max : val;
+    t.uncertain = t.uncertain || !!l.range;
+    totals.set(id, t);
+  };
+
+  graph.links.forEach(l => {
+    // Use the data value, not the forced-visible layout value
+    const val = l.realValue !== undefined ? l.realValue : l.value;
+    const sId = resolveNodeId(l.source, graph.nodes);
+    const tId = resolveNodeId(l.target, graph.nodes);
+    if (sId) add(outflow, sId, l, val);
+    if (tId) add(inflow, tId, l, val);
+  });
+
+  const issues: MassBalanceIssue[] = [];
+  graph.nodes.forEach(n => {
+    if (!balancedIds.has(n.id)) return;
+
+    const inTotal = inflow.get(n.id) || NO_FLOW;
+    const outTotal = outflow.get(n.id) || NO_FLOW;
+    const gap = inTotal.value - outTotal.value;
+    const relativeGap = Math.abs(gap) / Math.max(inTotal.value, outTotal.value, 1e-9);
+
+    // Smallest gap the ranges allow (equals gap without uncertainty)
+    const gapMin = inTotal.min - outTotal.max;
+    const gapMax = inTotal.max - outTotal.min;
+    const leastGap = gapMin > 0 ? gapMin : gapMax < 0 ? gapMax : 0;
+    const relativeLeastGap = Math.abs(leastGap) / Math.max(inTotal.value, outTotal.value, 1e-9);
+
+    if (Math.abs(leastGap) > tolerance.absolute && relativeLeastGap > tolerance.relative) {
+      issues.push({
+        year,
+        nodeId: n.id,
+        nodeName: n.name,
+        inflow: inTotal.value,
+        outflow: outTotal.value,
+        gap,
+        relativeGap,
+        ...((inTotal.uncertain || outTotal.uncertain) && { gapRange: { min: gapMin, max: gapMax } })
+      });
+    }
+  });
+
+  return issues;
+};
@@ -1,125 +1,175 @@
-import { NdDataRow, GraphData, SankeyNode, SankeyLink } from '../types';
-
-export const processYearData = (row: NdDataRow): GraphData => {
-  // Define standard nodes based on the paper's flow
-  const nodes: SankeyNode[] = [
-    { name: 'Ore', id: 'ore', category: 'process' },                   // 0
-    { name: 'Concentrate', id: 'concentrate', category: 'process' },   // 1
-    { name: 'Metal', id: 'metal', category: 'process' },               // 2
-    { name: 'NdFeB Magnet', id: 'magnet', category: 'process' },       // 3
-    { name: 'Other Semi-products', id: 'other_semi', category: 'process' }, // 4
-    { name: 'Wind Turbine', id: 'wind_turbine', category: 'process' },      // 5
-    { name: 'Other Final Products', id: 'other_final', category: 'process' }, // 6
-    { name: 'Loss', id: 'loss', category: 'loss' },                     // 7
-    { name: 'Export', id: 'export', category: 'trade' },                // 8 (All Trade/Export)
-    // New Nodes
-    { name: 'End of Life', id: 'eol', category: 'end_of_life' }         // 9
-  ];
+import { NdDataRow, GraphData, SankeyNode, SankeyLink, FlowModel, FlowModelLink, LinkType, ExportBreakdown, FlowRange, DataUnits } from '../types';
+import { ND_FLOW_MODEL } from './flowModels';
+import { getDestinationColumns } from './destinations';
+import { readRange, sumRanges, absRange, scaleRange } from './uncertainty';
+import { normalizeRowUnits } from './units';
+
+// Read a numeric cell, treating blanks and non-numbers as 0
+const readColumn = (row: NdDataRow, column: string): number => Number(row[column]) || 0;
+
+// Evaluate a link's column expression against one data row
+export const evaluateLinkValue = (row: NdDataRow, link: FlowModelLink): number => {
+  if (link.combine === 'first') {
+    for (const column of link.columns) {
+      const v = readColumn(row, column);
+      if (v) return v;
+    }
+    return 0;
+  }
+  return link.columns.reduce((sum, column) => sum + readColumn(row, column), 0);
+};
+
+// Uncertainty of a link from the companion columns of the columns its value
+// was read from; undefined when none of them has any
+export const evaluateLinkRange = (row: NdDataRow, link: FlowModelLink): FlowRange | undefined => {
+  const columns = link.combine === 'first'
+    ? link.columns.filter(column => readColumn(row, column)).slice(0, 1)
+    : link.columns;
+  return sumRanges(columns.map(column => ({ value: readColumn(row, column), range: readRange(row, column) })));
+};
+
+export interface ProcessOptions {
+  exportBreakdown?: ExportBreakdown; // Default 'none'
+  regions?: string[]; // All regions in the data (see getDestinationRegions); defaults to this row's
+  units?: DataUnits; // Column units; without them every column is read as kt
+}
+
+export const processYearData = (
+  dataRow: NdDataRow,
+  model: FlowModel = ND_FLOW_MODEL,
+  options: ProcessOptions = {}
+): GraphData => {
+  const row = options.units ? normalizeRowUnits(dataRow, options.units) : dataRow;
+  const breakdown = options.exportBreakdown || 'none';
+
+  const nodes: SankeyNode[] = model.nodes.map(n => ({
+    id: n.id,
+    name: n.name,
+    category: n.category,
+    accumulatesStock: n.accumulatesStock
+  }));
+
+  // d3-sankey resolves links by node index
+  const indexById = new Map<string, number>();
+  nodes.forEach((n, i) => indexById.set(n.id, i));
 
   const links: SankeyLink[] = [];
 
   // Helper to push link with optional forceVisible flag
   const addLink = (
-    source: number, 
-    target: number, 
-    value: number, 
-    type: 'domestic' | 'trade' | 'loss', 
-    forceVisible: boolean = false
+    source: number,
+    target: number,
+    value: number,
+    type: LinkType,
+    forceVisible: boolean = false,
+    region?: string,
+    range?: FlowRange
   ) => {
     let absValue = Math.abs(value);
     const realValue = absValue;
-    
+
     // If we force visibility, ensure a minimum value for the Sankey layout engine
     // but keep the realValue for display.
     // 0.25 kt is chosen as a "thin line" threshold.
     if (forceVisible && absValue < 0.25) {
-        absValue = 0.25; 
+        absValue = 0.25;
     }
 
-    if (absValue > 0.001) { 
-      links.push({ 
-        source: source, 
-        target: target, 
-        value: absValue, 
+    if (absValue > 0.001) {
+      links.push({
+        source: source,
+        target: target,
+        value: absValue,
         realValue: realValue, // Store actual value for tooltips/labels
-        type 
+        type,
+        ...(range && { range: absRange(value, range) }),
+        ...(region !== undefined && { region, regionIndex: regions.indexOf(region) })
       });
     }
   };
 
-  // 1. Ore Stage
-  addLink(0, 1, row['domestic-ore'] || 0, 'domestic');
-
-  // 2. Concentrate Stage (Beneficiation)
-  // All trade flows go to Export (Node 8)
-  // Support both 'trade-' and 'export-' prefixes
-  const exportConcentrate = (row['trade-concentrate'] || 0) + (row['export-concentrate'] || 0);
-  addLink(1, 8, exportConcentrate, 'trade'); 
-  addLink(1, 7, row['loss-concentrate'] || 0, 'loss');
-  addLink(1, 2, row['domestic-concentrate'] || 0, 'domestic');
-
-
-  // 3. Metal Stage (Refining)
-  const exportMetal = (row['trade-metal'] || 0) + (row['export-metal'] || 0);
-  addLink(2, 8, exportMetal, 'trade'); 
-  addLink(2, 7, row['loss-metal'] || 0, 'loss');
-  
-  // Mapping Update: 'domestic-metal' is flow Metal -> Magnet
-  addLink(2, 3, row['domestic-metal'] || 0, 'domestic'); 
-  
-  // Mapping Update: 'domestic-other semi-products' is flow Metal -> Other Semi
-  const otherSemiFlow = row['domestic-other semi-products'] || 0;
-  addLink(2, 4, otherSemiFlow, 'domestic');
-
-
-  // 4. Semi-Products Stage (Fabrication)
-  // Combine export columns for Magnet: 'permanent magnets-ex', 'trade-permenent magnets', and 'export-permenent magnets'
-  const magnetEx = row['permanent magnets-ex(kt)'] || 0;
-  const tradeMagnet = row['trade-permenent magnets'] || 0;
-  const exportMagnet = row['export-permenent magnets'] || 0;
-  
-  const totalMagnetExport = magnetEx + tradeMagnet + exportMagnet;
-
-  addLink(3, 8, totalMagnetExport, 'trade'); // Magnet -> Export
-  addLink(3, 7, row['loss-permenent magnets'] || 0, 'loss');
-  
-  // Potential Export for Other Semi-products (if data exists)
-  const exportOtherSemi = row['export-other semi-products'] || 0;
-  addLink(4, 8, exportOtherSemi, 'trade');
-
-  // Flows to Final Products
-  // Mapping Update: 'domestic-permenent magnets' is flow Magnet -> Wind Turbine
-  addLink(3, 5, row['domestic-permenent magnets'] || 0, 'domestic');
-  
-  // Magnet -> Other Final Products (Assuming this remains as domestic-other finalproducts)
-  addLink(3, 6, row['domestic-other finalproducts'] || 0, 'domestic');
-  
-  // Other Semi -> Other Final Products (Mapping Update: same as input)
-  addLink(4, 6, otherSemiFlow, 'domestic');
-
-
-  // 5. Final Products Stage
-  const exportWindTurbine = (row['trade-wind turbine'] || 0) + (row['export-wind turbine'] || 0);
-  addLink(5, 8, exportWindTurbine, 'trade'); // Wind Turbine -> Export
-
-  // Potential Export for Other Final Products (if data exists)
-  const exportOtherFinal = row['export-other finalproducts'] || 0;
-  addLink(6, 8, exportOtherFinal, 'trade');
-
-  // --- End of Life Flows ---
-  
-  // Outflows to End of Life (Green - Domestic)
-  // FORCE VISIBLE
-  // Wind Turbine -> EoL (Domestic Green)
-  addLink(5, 9, row['Wind Turbine outflow'] || 0, 'domestic', true);
-  // Other Final -> EoL (Domestic Green)
-  addLink(6, 9, row['Others outflow'] || 0, 'domestic', true);
-  
-  // End of Life to Loss (Grey)
-  // Check 'end of life' column first, then 'end of life to loss'
-  const eolToLoss = row['end of life'] || row['end of life to loss'] || 0;
-  // FORCE VISIBLE
-  addLink(9, 7, eolToLoss, 'loss', true);
-
-  return { nodes, links };
-};
\ No newline at end of file
+  // Per-destination exports: destination columns split a stage's export link
+  // by region, either into one node per region or into sub-bands of the same link
+  const destinations = getDestinationColumns(Object.keys(row), model);
+  const regions = options.regions || Array.from(new Set(destinations.map(d => d.region))).sort();
+
+  const regionTarget = (fallback: number, region: string) => {
+    if (breakdown !== 'nodes') return fallback;
+    const id = `export:${region}`;
+    if (!indexById.has(id)) {
+      indexById.set(id, nodes.length);
+      nodes.push({ id, name: region, category: 'trade', region, regionIndex: regions.indexOf(region) });
+    }
+    return indexById.get(id)!;
+  };
+
+  model.links.forEach(l => {
+    const source = indexById.get(l.source);
+    const target = indexById.get(l.target);
+    if (source === undefined || target === undefined) return;
+
+    const value = evaluateLinkValue(row, l);
+    const split = destinations.filter(d => d.link === l);
+    if (split.length === 0) {
+      addLink(source, target, value, l.type, !!l.forceVisible, undefined, evaluateLinkRange(row, l));
+      return;
+    }
+    if (breakdown === 'none') {
+      // Without a stage total the destination columns add up to the export
+      if (value) {
+        addLink(source, target, value, l.type, !!l.forceVisible, undefined, evaluateLinkRange(row, l));
+      } else {
+        const parts = split.map(d => ({ value: readColumn(row, d.column), range: readRange(row, d.column) }));
+        const total = parts.reduce((sum, p) => sum + p.value, 0);
+        addLink(source, target, total, l.type, !!l.forceVisible, undefined, sumRanges(parts));
+      }
+      return;
+    }
+
+    // Aliases of the same destination (export-/trade-) are added up
+    const byRegion = new Map<string, { value: number, range?: FlowRange }[]>();
+    split.forEach(d => {
+      const parts = byRegion.get(d.region) || [];
+      parts.push({ value: readColumn(row, d.column), range: readRange(row, d.column) });
+      byRegion.set(d.region, parts);
+    });
+
+    // Regions keep the ranges of their own columns; without any, they take
+    // their share of the stage total's range
+    const stageRange = evaluateLinkRange(row, l);
+    const shareOfStage = (part: number) => stageRange && value > 0 ? scaleRange(stageRange, part / value) : undefined;
+
+    let assigned = 0;
+    byRegion.forEach((parts, region) => {
+      const regionValue = parts.reduce((sum, p) => sum + p.value, 0);
+      assigned += regionValue;
+      const range = sumRanges(parts) || shareOfStage(regionValue);
+      addLink(source, regionTarget(target, region), regionValue, l.type, false, region, range);
+    });
+    // Whatever the destination columns do not cover stays unassigned
+    const unassigned = Math.max(0, value - assigned);
+    addLink(source, target, unassigned, l.type, !!l.forceVisible, undefined, shareOfStage(unassigned));
+  });
+
+  // Import sources only exist when the workbook carries import columns,
+  // so drop unconnected import nodes instead of drawing an empty bar.
+  // The same goes for the Export node once every flow has a destination node.
+  const connected = new Set<number>();
+  links.forEach(l => { connected.add(l.source as number); connected.add(l.target as number); });
+  const prunable = (n: SankeyNode) => n.category === 'import' || (breakdown === 'nodes' && n.category === 'trade');
+  const keep = nodes.map((n, i) => !prunable(n) || connected.has(i));
+  if (keep.every(Boolean)) return { nodes, links };
+
+  const remap = new Map<number, number>();
+  const keptNodes = nodes.filter((n, i) => {
+    if (keep[i]) remap.set(i, remap.size);
+    return keep[i];
+  });
+  const remappedLinks = links.map(l => ({
+    ...l,
+    source: remap.get(l.source as number)!,
+    target: remap.get(l.target as number)!
+  }));
+
+  return { nodes: keptNodes, links: remappedLinks };
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { serializeProject, parseProject, PROJECT_FILE_VERSION } from './projectFile';
+import { DEFAULT_SETTINGS } from './settings';
+import { ND_FLOW_MODEL } from './flowModels';
+import { NdDataRow, ProjectState } from '../types';
+
+const layout = {
+  nodes: { ore: { x0: 50, x1: 70, y0: 300, y1: 400, isRotated: false } },
+  links: {}
+};
+
+const project: ProjectState = {
+  data: [{ year: 2020, 'domestic-ore': 5 } as unknown as NdDataRow],
+  selectedYear: 2020,
+  savedLayout: null,
+  currentLayout: layout,
+  customLabels: [],
+  settings: { ...DEFAULT_SETTINGS, unit: 't', headerUnits: { 'import-metal': 't' } },
+  flowModel: ND_FLOW_MODEL
+};
+
+describe('project files', () => {
+  it('round-trips the working state', () => {
+    const restored = parseProject(serializeProject(project));
+    expect(restored.data).toEqual(project.data);
+    expect(restored.selectedYear).toBe(2020);
+    expect(restored.savedLayout).toBeNull();
+    expect(restored.currentLayout).toEqual(layout);
+    expect(restored.settings).toEqual(project.settings);
+    expect(restored.flowModel).toBe(ND_FLOW_MODEL);
+  });
+
+  it('stores only custom flow models', () => {
+    expect(JSON.parse(serializeProject(project)).flowModel).toBeUndefined();
+  });
+
+  it('fills in settings added after the file was written', () => {
+    const json = JSON.parse(serializeProject(project));
+    delete json.settings.massBasis;
+    expect(parseProject(JSON.stringify(json)).settings.massBasis).toBe(DEFAULT_SETTINGS.massBasis);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseProject('{')).toThrow('not valid JSON');
+    expect(() => parseProject('{"format":"other"}')).toThrow('not a Sankey project file');
+    const newer = { ...JSON.parse(serializeProject(project)), version: PROJECT_FILE_VERSION + 1 };
+    expect(() => parseProject(JSON.stringify(newer))).toThrow('Please update the app');
+  });
+});
@@ -0,0 +1,59 @@
+import { ProjectState, SavedLayoutMap } from '../types';
+import { DEFAULT_SETTINGS } from './settings';
+import { ND_FLOW_MODEL, parseFlowModel } from './flowModels';
+
+// Bump when the file layout changes in a way older readers cannot handle
+export const PROJECT_FILE_VERSION = 1;
+const PROJECT_FILE_FORMAT = 'ndflow-sankey-project';
+
+export const PROJECT_FILE_EXTENSION = '.sankey.json';
+
+export const serializeProject = (state: ProjectState): string => {
+  return JSON.stringify({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    ...state,
+    // The built-in model ships with the app, only custom models are stored
+    flowModel: state.flowModel === ND_FLOW_MODEL ? undefined : state.flowModel
+  }, null, 2);
+};
+
+const parseLayout = (raw: any): SavedLayoutMap | null => raw && raw.nodes ? {
+  nodes: raw.nodes,
+  links: raw.links || {}
+} : null;
+
+// Parses and validates a project file. Throws an Error with a user-facing message.
+export const parseProject = (text: string): ProjectState => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!raw || raw.format !== PROJECT_FILE_FORMAT) {
+    throw new Error("This is not a Sankey project file.");
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${raw.version} is not supported (this app reads up to version ${PROJECT_FILE_VERSION}). Please update the app.`);
+  }
+  if (!Array.isArray(raw.data)) {
+    throw new Error("Project file has no data rows.");
+  }
+
+  const selectedYear = typeof raw.selectedYear === 'number' ? raw.selectedYear : null;
+
+  return {
+    data: raw.data,
+    edges: Array.isArray(raw.edges) ? raw.edges : undefined,
+    selectedYear,
+    savedLayout: parseLayout(raw.savedLayout),
+    currentLayout: parseLayout(raw.currentLayout),
+    customLabels: Array.isArray(raw.customLabels) ? raw.customLabels : [],
+    // Fill in settings introduced after the file was written
+    settings: { ...DEFAULT_SETTINGS, ...(raw.settings || {}) },
+    flowModel: raw.flowModel ? parseFlowModel(raw.flowModel) : ND_FLOW_MODEL
+  };
+};
@@ -0,0 +1,34 @@
+import { GraphData } from '../types';
+
+// Largest node throughput (max of inflow and outflow, as d3-sankey sizes nodes)
+// across a set of graphs. Used as the reference for a shared value-to-pixel factor.
+export const getMaxNodeThroughput = (graphs: GraphData[]): number => {
+  let max = 0;
+  graphs.forEach(graph => {
+    const inflow = new Array(graph.nodes.length).fill(0);
+    const outflow = new Array(graph.nodes.length).fill(0);
+    graph.links.forEach(l => {
+      if (typeof l.source === 'number') outflow[l.source] += l.value;
+      if (typeof l.target === 'number') inflow[l.target] += l.value;
+    });
+    graph.nodes.forEach((n, i) => {
+      max = Math.max(max, inflow[i], outflow[i]);
+    });
+  });
+  return max;
+};
+
+// Pick a "nice" value (1, 2 or 5 x 10^n) whose bar length is close to targetPx
+export const getScaleBarValue = (pxPerUnit: number, targetPx: number = 60): number => {
+  if (!(pxPerUnit > 0)) return 0;
+  const raw = targetPx / pxPerUnit;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const steps = [1, 2, 5, 10];
+  const step = steps.reduce((best, s) =>
+    Math.abs(s * magnitude - raw) < Math.abs(best * magnitude - raw) ? s : best
+  );
+  return step * magnitude;
+};
+
+export const formatScaleValue = (value: number): string =>
+  value >= 1 ? `${Number(value.toPrecision(3))}` : value.toPrecision(1);
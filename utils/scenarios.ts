@@ -0,0 +1,58 @@
+import { GraphData, NdDataRow, EdgeRow, FlowModel, LinkType } from '../types';
+import { processYearData, ProcessOptions } from './processData';
+import { getEdgeNodes, getEdgeYears, buildEdgeGraph } from './edgeList';
+import { resolveNodeId } from './massBalance';
+import { getRelativeChange } from './difference';
+
+// Model graphs of one dataset for every year, sorted by year. Edge lists
+// are drawn as they are; wide rows go through the flow model.
+export const buildYearGraphs = (
+  rows: NdDataRow[],
+  edges: EdgeRow[],
+  model: FlowModel,
+  options: ProcessOptions
+): { year: number, graph: GraphData }[] => {
+  if (edges.length > 0) {
+    const nodes = getEdgeNodes(edges);
+    return getEdgeYears(edges).map(year => ({ year, graph: buildEdgeGraph(edges, year, nodes, options.units) }));
+  }
+  return rows
+    .map(row => ({ year: Number(row.year), graph: processYearData(row, model, options) }))
+    .sort((a, b) => a.year - b.year);
+};
+
+export interface ScenarioFlow {
+  key: string; // "source-target", as in the saved layout
+  label: string;
+  type: LinkType;
+  a: number;
+  b: number;
+}
+
+// Flows of two scenarios matched by source and target id, largest first.
+// Per-destination sub-bands and stock flows are added up per link.
+export const compareScenarioFlows = (a: GraphData, b: GraphData): ScenarioFlow[] => {
+  const flows = new Map<string, ScenarioFlow>();
+
+  const collect = (graph: GraphData, side: 'a' | 'b') => {
+    graph.links.forEach(l => {
+      const sId = resolveNodeId(l.source, graph.nodes);
+      const tId = resolveNodeId(l.target, graph.nodes);
+      if (!sId || !tId) return;
+      const key = `${sId}-${tId}`;
+      if (!flows.has(key)) {
+        const name = (id: string) => graph.nodes.find(n => n.id === id)?.name || id;
+        flows.set(key, { key, label: `${name(sId)} → ${name(tId)}`, type: l.type, a: 0, b: 0 });
+      }
+      flows.get(key)![side] += l.realValue !== undefined ? l.realValue : l.value;
+    });
+  };
+  collect(a, 'a');
+  collect(b, 'b');
+
+  return Array.from(flows.values())
+    .sort((x, y) => Math.max(Math.abs(y.a), Math.abs(y.b)) - Math.max(Math.abs(x.a), Math.abs(x.b)));
+};
+
+// Relative change from scenario A to B (see getRelativeChange)
+export const getScenarioChange = (flow: ScenarioFlow): number => getRelativeChange({ base: flow.a, target: flow.b });
@@ -0,0 +1,68 @@
+import { ProjectState } from '../types';
+import { serializeProject, parseProject } from './projectFile';
+
+// Autosaved working state in IndexedDB. The session is stored in the same
+// format as project files, so version checks apply on restore as well.
+const DB_NAME = 'ndflow-sankey';
+const STORE_NAME = 'session';
+const SESSION_KEY = 'current';
+
+interface StoredSession {
+  savedAt: string;
+  project: string; // Serialized project file
+}
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error("IndexedDB is not available."));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = action(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveSession = (state: ProjectState): Promise<void> => {
+  const session: StoredSession = {
+    savedAt: new Date().toISOString(),
+    project: serializeProject(state)
+  };
+  return withStore<void>('readwrite', store => store.put(session, SESSION_KEY));
+};
+
+// Resolves to null when nothing is stored or the stored session is unreadable
+export const loadSession = async (): Promise<{ savedAt: Date, state: ProjectState } | null> => {
+  const session = await withStore<StoredSession | undefined>('readonly', store => store.get(SESSION_KEY));
+  if (!session) return null;
+  try {
+    return { savedAt: new Date(session.savedAt), state: parseProject(session.project) };
+  } catch (e) {
+    console.warn("Discarding unreadable autosave", e);
+    return null;
+  }
+};
+
+export const clearSession = (): Promise<void> => {
+  return withStore<void>('readwrite', store => store.delete(SESSION_KEY));
+};
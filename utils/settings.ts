@@ -0,0 +1,38 @@
+import { VisualizationSettings, ExportSettings } from '../types';
+
+// Updated colors to match Figure S8: 
+// Domestic = Green, Trade = Blue, Import = Light Blue, Loss = Grey, Recycled = Orange
+export const DEFAULT_SETTINGS: VisualizationSettings = {
+  nodeWidth: 25,
+  nodePadding: 30,
+  fontSize: 12,
+  linkFontSize: 10, 
+  flowScale: 0.9, 
+  fixedScale: false,
+  exportBreakdown: 'none',
+  showInUseStock: false,
+  colorDomestic: '#74c476', // Light Green
+  colorTrade: '#2171b5',    // Strong Blue
+  colorImport: '#6baed6',   // Light Blue
+  colorLoss: '#969696',     // Grey
+  colorRecycled: '#fd8d3c', // Orange
+  colorStock: '#9e9ac8',    // Purple
+  showLabels: true,
+  align: 'justify',
+  unit: 'kt',
+  massBasis: 'content',
+  contentShares: { magnet: 0.3 }, // Nd in NdFeB magnets, by mass
+  dataUnit: 'kt',
+  columnUnits: {},
+  headerUnits: {}
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  rasterFormat: 'jpeg',
+  dpi: 192, // Twice screen resolution
+  quality: 0.95,
+  transparent: false,
+  pdfPageSize: 'a4',
+  pdfOrientation: 'landscape',
+  batchFormat: 'pdf'
+};
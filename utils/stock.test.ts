@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { addStockFlows, computeStockLevels, STOCK_NODE_ID } from './stock';
+import { GraphData } from '../types';
+
+// Magnets into wind turbines, turbines out to End of Life
+const makeGraph = (installed: number, retired: number): GraphData => ({
+  nodes: [
+    { id: 'magnet', name: 'NdFeB Magnet', category: 'process' },
+    { id: 'wind_turbine', name: 'Wind Turbine', category: 'process', accumulatesStock: true },
+    { id: 'eol', name: 'End of Life', category: 'end_of_life' }
+  ],
+  links: [
+    { source: 0, target: 1, value: installed, realValue: installed, type: 'domestic' },
+    { source: 1, target: 2, value: retired, realValue: retired, type: 'domestic' }
+  ]
+});
+
+describe('in-use stock', () => {
+  it('adds up net additions over the years', () => {
+    const levels = computeStockLevels([
+      { year: 2020, graph: makeGraph(5, 1) },
+      { year: 2021, graph: makeGraph(2, 3) }
+    ]);
+    expect(levels.map(l => l.levels.get('wind_turbine'))).toEqual([4, 3]);
+  });
+
+  it('draws drawdowns as flows out of the stock', () => {
+    const graph = addStockFlows(makeGraph(2, 3));
+    const stock = graph.nodes.findIndex(n => n.id === STOCK_NODE_ID);
+    const flow = graph.links.find(l => l.type === 'stock')!;
+    expect(flow.source).toBe(stock);
+    expect(flow.value).toBe(1);
+  });
+
+  it('reports the stock in the display unit', () => {
+    const graph = addStockFlows(makeGraph(5000, 1000), new Map([['wind_turbine', 4000]]),
+      { unit: 't', massBasis: 'content', contentShares: {} });
+    expect(graph.nodes.find(n => n.id === STOCK_NODE_ID)?.details).toBe('Wind Turbine: 4000 t in use');
+  });
+});
@@ -0,0 +1,90 @@
+import { GraphData, SankeyLink, FlowSeries } from '../types';
+import { resolveNodeId } from './massBalance';
+import { formatMass, fromKt, getUnitLabel, UnitSettings } from './units';
+
+export const STOCK_NODE_ID = 'in_use_stock';
+
+const KT_CONTENT: UnitSettings = { unit: 'kt', massBasis: 'content', contentShares: {} };
+
+// Net addition to the in-use stock of every accumulating node in one year:
+// inflow minus all outflows (exports, End of Life). Negative = stock drawdown.
+export const getNetAdditions = (graph: GraphData): Map<string, number> => {
+  const net = new Map<string, number>();
+  graph.nodes.forEach(n => { if (n.accumulatesStock) net.set(n.id, 0); });
+
+  graph.links.forEach(l => {
+    const val = l.realValue !== undefined ? l.realValue : l.value;
+    const sId = resolveNodeId(l.source, graph.nodes);
+    const tId = resolveNodeId(l.target, graph.nodes);
+    if (tId && net.has(tId)) net.set(tId, net.get(tId)! + val);
+    if (sId && net.has(sId)) net.set(sId, net.get(sId)! - val);
+  });
+  return net;
+};
+
+// Adds the In-use Stock node and one link per accumulating node carrying
+// that year's net addition (reversed for drawdowns). `stockLevels` holds the
+// cumulative stock per node up to this year and ends up in the node tooltip,
+// formatted in the display unit the graph is in.
+export const addStockFlows = (graph: GraphData, stockLevels?: Map<string, number>, units: UnitSettings = KT_CONTENT): GraphData => {
+  const net = getNetAdditions(graph);
+  if (net.size === 0) return graph;
+
+  const stockIndex = graph.nodes.length;
+  const links: SankeyLink[] = [...graph.links];
+  net.forEach((value, nodeId) => {
+    if (Math.abs(value) <= fromKt(0.001, units.unit)) return;
+    const nodeIndex = graph.nodes.findIndex(n => n.id === nodeId);
+    links.push({
+      source: value > 0 ? nodeIndex : stockIndex,
+      target: value > 0 ? stockIndex : nodeIndex,
+      value: Math.abs(value),
+      realValue: Math.abs(value),
+      type: 'stock'
+    });
+  });
+
+  const details = stockLevels
+    ? Array.from(net.keys()).map(nodeId => {
+        const name = graph.nodes.find(n => n.id === nodeId)?.name || nodeId;
+        return `${name}: ${formatMass(stockLevels.get(nodeId) || 0, units.unit)} ${getUnitLabel(units)} in use`;
+      }).join('\n')
+    : undefined;
+
+  return {
+    nodes: [...graph.nodes, { id: STOCK_NODE_ID, name: 'In-use Stock', category: 'stock', accumulatesStock: true, details }],
+    links
+  };
+};
+
+// Cumulative in-use stock per accumulating node, integrated over the
+// (sorted) years starting from zero before the first loaded year
+export const computeStockLevels = (
+  frames: { year: number, graph: GraphData }[]
+): { year: number, levels: Map<string, number> }[] => {
+  const running = new Map<string, number>();
+  return frames.map(({ year, graph }) => {
+    getNetAdditions(graph).forEach((value, nodeId) => {
+      running.set(nodeId, (running.get(nodeId) || 0) + value);
+    });
+    return { year, levels: new Map(running) };
+  });
+};
+
+// One series per product for the time-series view
+export const getStockSeries = (
+  frames: { year: number, graph: GraphData }[],
+  stock: { year: number, levels: Map<string, number> }[]
+): FlowSeries[] => {
+  const nodeIds = new Set<string>();
+  stock.forEach(s => s.levels.forEach((v, id) => nodeIds.add(id)));
+
+  return Array.from(nodeIds).map(nodeId => {
+    const node = frames.map(f => f.graph.nodes.find(n => n.id === nodeId)).find(Boolean);
+    return {
+      key: `stock:${nodeId}`,
+      label: `${node?.name || nodeId} stock`,
+      values: stock.map(s => ({ year: s.year, value: s.levels.get(nodeId) || 0 }))
+    };
+  });
+};
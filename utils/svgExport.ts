@@ -0,0 +1,251 @@
+// Builds a clean, self-contained SVG document from the live diagram:
+// interaction helpers are removed, styles are written as attributes (fonts
+// by name, see FONT_STACK), groups become named layers and every element
+// gets a readable id.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const INKSCAPE_NS = 'http://www.inkscape.org/namespaces/inkscape';
+
+// Generic families are resolved to fonts that illustration tools know.
+// Fonts are named, not embedded: Illustrator and Inkscape ignore @font-face
+// rules in SVG files, and text converted to outlines could no longer be
+// edited. Helvetica and Arial ship with macOS and Windows, and Linux maps
+// them to the metric-compatible Liberation Sans, so labels keep their width.
+const FONT_STACK = 'Helvetica, Arial, sans-serif';
+
+// Computed styles written as presentation attributes when not already set
+const INLINED_PROPERTIES = ['fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'opacity'];
+const TEXT_PROPERTIES = ['font-size', 'font-weight', 'text-anchor'];
+
+const toId = (raw: string) => raw.replace(/[^A-Za-z0-9_-]+/g, '_');
+
+const resolveFontFamily = (family: string) => {
+  const trimmed = family.trim();
+  if (!trimmed || /^(sans-serif|system-ui|ui-sans-serif)$/i.test(trimmed) || trimmed.includes('ui-sans-serif')) {
+    return FONT_STACK;
+  }
+  return trimmed;
+};
+
+// Copy computed styles from the live elements onto their clones.
+// Both trees must still have identical structure at this point.
+const inlineStyles = (source: SVGSVGElement, clone: SVGSVGElement) => {
+  const sourceEls = Array.from(source.querySelectorAll('*'));
+  const cloneEls = Array.from(clone.querySelectorAll('*'));
+
+  sourceEls.forEach((el, i) => {
+    const target = cloneEls[i];
+    if (!target || el.tagName !== target.tagName) return;
+    const computed = window.getComputedStyle(el);
+    const blendMode = computed.getPropertyValue('mix-blend-mode');
+
+    if (el.tagName === 'path' || el.tagName === 'rect' || el.tagName === 'text') {
+      INLINED_PROPERTIES.forEach(prop => {
+        const value = computed.getPropertyValue(prop);
+        if (value && !target.hasAttribute(prop)) target.setAttribute(prop, value);
+      });
+    }
+
+    if (el.tagName === 'text') {
+      TEXT_PROPERTIES.forEach(prop => {
+        const value = computed.getPropertyValue(prop);
+        if (value) target.setAttribute(prop, value);
+      });
+      target.setAttribute('font-family', resolveFontFamily(computed.getPropertyValue('font-family')));
+    }
+
+    // Only blend modes survive as CSS; everything else is attributes now
+    target.removeAttribute('style');
+    if (blendMode && blendMode !== 'normal') {
+      target.setAttribute('style', `mix-blend-mode:${blendMode}`);
+    }
+  });
+};
+
+const makeLayer = (doc: Document, id: string, label: string) => {
+  const layer = doc.createElementNS(SVG_NS, 'g');
+  layer.setAttribute('id', id);
+  layer.setAttributeNS(INKSCAPE_NS, 'inkscape:groupmode', 'layer');
+  layer.setAttributeNS(INKSCAPE_NS, 'inkscape:label', label);
+  return layer;
+};
+
+// Pass background = null for a transparent document
+export const buildCleanSvg = (
+  svgEl: SVGSVGElement,
+  width: number,
+  height: number,
+  background: string | null = '#ffffff'
+): string => {
+  const clone = svgEl.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svgEl, clone);
+  const doc = clone.ownerDocument;
+
+  // 1. Strip interaction helpers
+  clone.querySelectorAll('.link-handles, .resize-handle').forEach(el => el.remove());
+
+  // Validation outlines and selection highlights are on-screen aids, not part of the figure
+  clone.querySelectorAll('.link-path[data-selection]').forEach(el => el.setAttribute('stroke-opacity', '0.5'));
+  clone.querySelectorAll('.link-range[data-selection]').forEach(el => el.setAttribute('stroke-opacity', '0.2'));
+  clone.querySelectorAll('[data-unbalanced], .node-rect[data-selection]').forEach(el => {
+    el.setAttribute('stroke', '#333');
+    el.setAttribute('stroke-width', '1');
+    el.setAttribute('stroke-opacity', '0.8');
+    el.removeAttribute('stroke-dasharray');
+    el.querySelector('title')?.remove();
+  });
+
+  // 2. Readable ids
+  const linkLabelsLayer = makeLayer(doc, 'labels', 'labels');
+  clone.querySelectorAll('[data-link-key]').forEach(g => {
+    const key = toId(g.getAttribute('data-link-key')!);
+    g.setAttribute('id', `link-${key}`);
+    g.querySelector('.link-path')?.setAttribute('id', `link-${key}-path`);
+
+    // Value labels move to their own layer so they can be styled separately
+    const labelParts = Array.from(g.querySelectorAll('.link-label'));
+    if (labelParts.length) {
+      const labelGroup = doc.createElementNS(SVG_NS, 'g');
+      labelGroup.setAttribute('id', `link-${key}-label`);
+      labelParts.forEach(part => labelGroup.appendChild(part));
+      linkLabelsLayer.appendChild(labelGroup);
+    }
+  });
+
+  clone.querySelectorAll('[data-node-id]').forEach(g => {
+    const id = toId(g.getAttribute('data-node-id')!);
+    g.setAttribute('id', `node-${id}`);
+    g.querySelector('.node-rect')?.setAttribute('id', `node-${id}-rect`);
+    g.querySelector('.node-label')?.setAttribute('id', `node-${id}-label`);
+  });
+
+  clone.querySelectorAll('[data-label-id]').forEach(g => {
+    g.setAttribute('id', `custom-label-${toId(g.getAttribute('data-label-id')!)}`);
+  });
+
+  // 3. Turn top-level groups into named layers
+  const layerNames: Record<string, string> = {
+    'links': 'links',
+    'nodes': 'nodes',
+    'custom-labels': 'custom-labels',
+    'scale-bar': 'scale-bar',
+    'change-legend': 'change-legend',
+    'region-legend': 'region-legend',
+    'caption': 'caption'
+  };
+  Array.from(clone.children).forEach(child => {
+    const cls = child.getAttribute('class') || '';
+    const name = layerNames[cls];
+    if (!name) return;
+    const layer = makeLayer(doc, name, name);
+    while (child.firstChild) layer.appendChild(child.firstChild);
+    if (child.getAttribute('transform')) layer.setAttribute('transform', child.getAttribute('transform')!);
+    child.replaceWith(layer);
+  });
+
+  // Link value labels sit above nodes, below custom labels
+  const customLayer = clone.querySelector('#custom-labels');
+  if (linkLabelsLayer.childNodes.length) {
+    clone.insertBefore(linkLabelsLayer, customLayer);
+  }
+
+  // 4. Clean up editor-only attributes
+  clone.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      if (attr.name.startsWith('data-') || attr.name === 'class' || attr.name === 'cursor') {
+        el.removeAttribute(attr.name);
+      }
+    });
+  });
+
+  // 5. Root attributes and an explicit background
+  clone.removeAttribute('style');
+  clone.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:inkscape', INKSCAPE_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  if (background) {
+    const backgroundRect = doc.createElementNS(SVG_NS, 'rect');
+    backgroundRect.setAttribute('id', 'background');
+    backgroundRect.setAttribute('width', String(width));
+    backgroundRect.setAttribute('height', String(height));
+    backgroundRect.setAttribute('fill', background);
+    clone.insertBefore(backgroundRect, clone.firstChild);
+  }
+
+  const source = new XMLSerializer().serializeToString(clone);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n${source}`;
+};
+
+// Lays out several exported diagrams in one figure, each with a title above it.
+// Cells are nested <svg> elements so every diagram keeps its own coordinates.
+export const composeSvgGrid = (
+  cells: { title: string, markup: string }[],
+  columns: number,
+  cellWidth: number,
+  cellHeight: number,
+  background: string | null = '#ffffff'
+): { markup: string, width: number, height: number } => {
+  const gap = 20;
+  const titleHeight = 36;
+  const rows = Math.ceil(cells.length / columns);
+  const width = columns * cellWidth + (columns + 1) * gap;
+  const height = rows * (cellHeight + titleHeight) + (rows + 1) * gap;
+
+  const doc = document.implementation.createDocument(SVG_NS, 'svg', null);
+  const root = doc.documentElement;
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  root.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:inkscape', INKSCAPE_NS);
+
+  if (background) {
+    const backgroundRect = doc.createElementNS(SVG_NS, 'rect');
+    backgroundRect.setAttribute('id', 'background');
+    backgroundRect.setAttribute('width', String(width));
+    backgroundRect.setAttribute('height', String(height));
+    backgroundRect.setAttribute('fill', background);
+    root.appendChild(backgroundRect);
+  }
+
+  cells.forEach((cell, i) => {
+    const col = i % columns;
+    const row = Math.floor(i / columns);
+    const x = gap + col * (cellWidth + gap);
+    const y = gap + row * (cellHeight + titleHeight + gap);
+    const cellId = `panel-${toId(cell.title)}`;
+
+    const layer = makeLayer(doc, cellId, cell.title);
+
+    const title = doc.createElementNS(SVG_NS, 'text');
+    title.setAttribute('id', `${cellId}-title`);
+    title.setAttribute('x', String(x));
+    title.setAttribute('y', String(y + titleHeight - 12));
+    title.setAttribute('font-family', FONT_STACK);
+    title.setAttribute('font-size', '24');
+    title.setAttribute('font-weight', 'bold');
+    title.setAttribute('fill', '#1e293b');
+    title.textContent = cell.title;
+    layer.appendChild(title);
+
+    const parsed = new DOMParser().parseFromString(cell.markup, 'image/svg+xml').documentElement;
+    const nested = doc.importNode(parsed, true) as Element;
+    nested.setAttribute('x', String(x));
+    nested.setAttribute('y', String(y + titleHeight));
+    nested.setAttribute('width', String(cellWidth));
+    nested.setAttribute('height', String(cellHeight));
+    // Prefix inner ids so panels stay unique in the combined document
+    nested.querySelectorAll('[id]').forEach(el => el.setAttribute('id', `${cellId}-${el.getAttribute('id')}`));
+    layer.appendChild(nested);
+
+    root.appendChild(layer);
+  });
+
+  const source = new XMLSerializer().serializeToString(root);
+  return {
+    markup: `<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n${source}`,
+    width,
+    height
+  };
+};
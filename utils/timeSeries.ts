@@ -0,0 +1,67 @@
+import { GraphData, FlowSelection, FlowSeries } from '../types';
+import { resolveNodeId } from './massBalance';
+
+// Same format as the layout keys of links ("SourceID-TargetID")
+export const getSelectionKey = (selection: FlowSelection): string =>
+  selection.kind === 'node' ? `node:${selection.nodeId}` : `${selection.source}-${selection.target}`;
+
+// Data value of a selection in one year. Nodes report their throughput
+// (larger of inflow and outflow), links their real (not forced-visible) value.
+const getSelectionValue = (graph: GraphData, selection: FlowSelection): number => {
+  let inflow = 0;
+  let outflow = 0;
+  let linkValue = 0;
+
+  graph.links.forEach(l => {
+    const val = l.realValue !== undefined ? l.realValue : l.value;
+    const sId = resolveNodeId(l.source, graph.nodes);
+    const tId = resolveNodeId(l.target, graph.nodes);
+    if (selection.kind === 'link') {
+      if (sId === selection.source && tId === selection.target) linkValue += val;
+    } else {
+      if (sId === selection.nodeId) outflow += val;
+      if (tId === selection.nodeId) inflow += val;
+    }
+  });
+
+  return selection.kind === 'link' ? linkValue : Math.max(inflow, outflow);
+};
+
+const getSelectionLabel = (frames: { graph: GraphData }[], selection: FlowSelection): string => {
+  const nameOf = (id: string) => {
+    for (const { graph } of frames) {
+      const node = graph.nodes.find(n => n.id === id);
+      if (node) return node.name;
+    }
+    return id;
+  };
+  return selection.kind === 'node'
+    ? nameOf(selection.nodeId)
+    : `${nameOf(selection.source)} → ${nameOf(selection.target)}`;
+};
+
+export const getFlowSeries = (
+  frames: { year: number, graph: GraphData }[],
+  selection: FlowSelection
+): FlowSeries => ({
+  key: getSelectionKey(selection),
+  label: getSelectionLabel(frames, selection),
+  values: frames.map(({ year, graph }) => ({ year, value: getSelectionValue(graph, selection) }))
+});
+
+// All links ending at a node in any year, e.g. the Export inflows by stage
+export const getInflowSelections = (
+  frames: { graph: GraphData }[],
+  nodeId: string
+): FlowSelection[] => {
+  const seen = new Map<string, FlowSelection>();
+  frames.forEach(({ graph }) => {
+    graph.links.forEach(l => {
+      const source = resolveNodeId(l.source, graph.nodes);
+      if (!source || resolveNodeId(l.target, graph.nodes) !== nodeId) return;
+      const selection: FlowSelection = { kind: 'link', source, target: nodeId };
+      seen.set(getSelectionKey(selection), selection);
+    });
+  });
+  return Array.from(seen.values());
+};
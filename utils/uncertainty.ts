@@ -0,0 +1,84 @@
+import { NdDataRow, FlowRange } from '../types';
+
+// Companion columns of a flow column: "domestic-metal_min", "_max", "_sd"
+export const RANGE_SUFFIXES = ['_min', '_max', '_sd'];
+
+// Flow column a companion column belongs to, or null
+export const getRangeBase = (column: string): string | null => {
+  const suffix = RANGE_SUFFIXES.find(s => column.toLowerCase().endsWith(s));
+  return suffix ? column.slice(0, -suffix.length) : null;
+};
+
+const readOptional = (row: NdDataRow, column: string): number | undefined => {
+  const raw = row[column];
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const num = Number(raw);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+// Interval from explicit bounds and/or a standard deviation around the value.
+// Missing bounds default to value ∓ sd, or to the value itself.
+export const makeRange = (value: number, min?: number, max?: number, sd?: number): FlowRange | undefined => {
+  if (min === undefined && max === undefined && sd === undefined) return undefined;
+  const spread = sd !== undefined ? Math.abs(sd) : 0;
+  const low = min !== undefined ? min : value - spread;
+  const high = max !== undefined ? max : value + spread;
+  return {
+    min: Math.min(low, high),
+    max: Math.max(low, high),
+    ...(sd !== undefined && { sd: Math.abs(sd) })
+  };
+};
+
+// Range of one flow column of a data row, undefined without companion columns
+export const readRange = (row: NdDataRow, column: string): FlowRange | undefined => {
+  const value = Number(row[column]) || 0;
+  return makeRange(
+    value,
+    readOptional(row, `${column}_min`),
+    readOptional(row, `${column}_max`),
+    readOptional(row, `${column}_sd`)
+  );
+};
+
+// Range of a sum of flows. Standard deviations of independent flows add in
+// quadrature; once any part only has bounds, the bounds are added up.
+export const sumRanges = (parts: { value: number, range?: FlowRange }[]): FlowRange | undefined => {
+  if (!parts.some(p => p.range)) return undefined;
+  const total = parts.reduce((sum, p) => sum + p.value, 0);
+  const sdOnly = parts.every(p => !p.range || (p.range.sd !== undefined
+    && Math.abs(p.range.min - (p.value - p.range.sd)) < 1e-9
+    && Math.abs(p.range.max - (p.value + p.range.sd)) < 1e-9));
+  if (sdOnly) {
+    const sd = Math.sqrt(parts.reduce((sum, p) => sum + (p.range?.sd || 0) ** 2, 0));
+    return { min: total - sd, max: total + sd, sd };
+  }
+  return {
+    min: parts.reduce((sum, p) => sum + (p.range ? p.range.min : p.value), 0),
+    max: parts.reduce((sum, p) => sum + (p.range ? p.range.max : p.value), 0)
+  };
+};
+
+// Range of a share of a flow, e.g. the part of an export going to one region
+export const scaleRange = (range: FlowRange, factor: number): FlowRange => ({
+  min: range.min * factor,
+  max: range.max * factor,
+  ...(range.sd !== undefined && { sd: range.sd * factor })
+});
+
+// Range of |value| for flows drawn with their absolute value
+export const absRange = (value: number, range?: FlowRange): FlowRange | undefined => {
+  if (!range || value >= 0) return range;
+  return { ...range, min: -range.max, max: -range.min };
+};
+
+// "12.3 ± 1.5" for symmetric intervals, "12.3 (10.1–14.0)" otherwise
+export const formatWithRange = (value: number, range?: FlowRange, digits: number = 1): string => {
+  if (!range) return value.toFixed(digits);
+  const below = value - range.min;
+  const above = range.max - value;
+  if (Math.abs(below - above) < 0.5 * 10 ** -digits) {
+    return `${value.toFixed(digits)} ± ${above.toFixed(digits)}`;
+  }
+  return `${value.toFixed(digits)} (${range.min.toFixed(digits)}–${range.max.toFixed(digits)})`;
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseUnitSuffix, parseMassUnit, getMappedUnits, getColumnUnit, normalizeRowUnits,
+  convertGraphUnits, getUnitLabel, formatMass, getMinLabelValue
+} from './units';
+import { GraphData, NdDataRow } from '../types';
+
+describe('reading data units', () => {
+  it('reads unit suffixes and names', () => {
+    expect(parseUnitSuffix('permanent magnets-ex(kt)')).toBe('kt');
+    expect(parseUnitSuffix('Metal-IM (t)')).toBe('t');
+    expect(parseUnitSuffix('ore (Mt)')).toBe('Mt');
+    expect(parseUnitSuffix('ore (mt)')).toBe('t');
+    expect(parseUnitSuffix('domestic-metal')).toBeNull();
+    expect(parseMassUnit('tonnes')).toBe('t');
+    expect(parseMassUnit('(kt)')).toBe('kt');
+    expect(parseMassUnit('kg')).toBeNull();
+  });
+
+  it('keeps the unit of a mapped header', () => {
+    expect(getMappedUnits({ 'import-metal': 'Metal-IM (t)', 'domestic-metal': 'Domestic Metal' }))
+      .toEqual({ 'import-metal': 't' });
+  });
+
+  it('prefers overrides, then suffixes, then the default', () => {
+    const units = { default: 't' as const, columns: { 'domestic-metal': 'Mt' as const } };
+    expect(getColumnUnit('domestic-metal', units)).toBe('Mt');
+    expect(getColumnUnit('domestic-metal_sd', units)).toBe('Mt');
+    expect(getColumnUnit('permanent magnets-ex(kt)', units)).toBe('kt');
+    expect(getColumnUnit('domestic-ore', units)).toBe('t');
+  });
+
+  it('normalizes a row to kt, leaving the year and blanks alone', () => {
+    const row = { year: 2020, 'domestic-ore': 1500, 'domestic-metal': '', 'ore (Mt)': 2 } as unknown as NdDataRow;
+    const normalized = normalizeRowUnits(row, { default: 't', columns: {} });
+    expect(normalized.year).toBe(2020);
+    expect(normalized['domestic-ore']).toBe(1.5);
+    expect(normalized['domestic-metal']).toBe('');
+    expect(normalized['ore (Mt)']).toBe(2000);
+  });
+});
+
+describe('convertGraphUnits', () => {
+  const graph: GraphData = {
+    nodes: [
+      { id: 'import', name: 'Import', category: 'import' },
+      { id: 'metal', name: 'Metal', category: 'process' },
+      { id: 'magnet', name: 'NdFeB Magnet', category: 'process' }
+    ],
+    links: [
+      { source: 1, target: 2, value: 3, realValue: 3, type: 'domestic', range: { min: 2, max: 4, sd: 1 } },
+      { source: 0, target: 2, value: 0.6, realValue: 0.6, type: 'import' }
+    ]
+  };
+
+  it('returns the graph unchanged for kt of Nd content', () => {
+    expect(convertGraphUnits(graph, { unit: 'kt', massBasis: 'content', contentShares: {} })).toBe(graph);
+  });
+
+  it('scales values and ranges to the display unit', () => {
+    const { links } = convertGraphUnits(graph, { unit: 't', massBasis: 'content', contentShares: {} });
+    expect(links[0].value).toBe(3000);
+    expect(links[0].range).toEqual({ min: 2000, max: 4000, sd: 1000 });
+  });
+
+  it('divides by the Nd share of the product on the product basis', () => {
+    const settings = { unit: 'kt' as const, massBasis: 'product' as const, contentShares: { metal: 1, magnet: 0.3 } };
+    const { links } = convertGraphUnits(graph, settings);
+    // Metal -> Magnet carries metal, the import of magnets carries magnets
+    expect(links[0].value).toBe(3);
+    expect(links[1].realValue).toBeCloseTo(2);
+    expect(getUnitLabel(settings)).toBe('kt product');
+  });
+});
+
+describe('display formatting', () => {
+  it('keeps the same precision and label threshold in every unit', () => {
+    expect(formatMass(1.234, 'kt')).toBe('1.2');
+    expect(formatMass(1234.4, 't')).toBe('1234');
+    expect(formatMass(0.0012, 'Mt')).toBe('0.0012');
+    expect(getMinLabelValue('kt')).toBe(0.01);
+    expect(getMinLabelValue('t')).toBeCloseTo(10);
+    expect(getMinLabelValue('Mt')).toBeCloseTo(0.00001);
+  });
+});
@@ -0,0 +1,121 @@
+import { NdDataRow, GraphData, SankeyNode, SankeyLink, MassUnit, DataUnits, ColumnMapping, VisualizationSettings } from '../types';
+import { getRangeBase } from './uncertainty';
+import { resolveNodeId } from './massBalance';
+
+// Flow values are kept in kt of Nd content internally (mass-balance
+// tolerances and the forced-visible threshold are in kt). Data columns are
+// converted to kt when read, graphs to the display unit and basis when drawn.
+
+export const MASS_UNITS: MassUnit[] = ['t', 'kt', 'Mt'];
+
+const KT_PER_UNIT: Record<MassUnit, number> = { t: 0.001, kt: 1, Mt: 1000 };
+
+// Unit written into a column or header name, e.g. "permanent magnets-ex(kt)".
+// "Mt" is case-sensitive so that it is not mistaken for metric tonnes ("mt").
+export const parseUnitSuffix = (column: string): MassUnit | null => {
+  const match = column.match(/\(\s*(t|kt|Mt|mt)\s*\)\s*$/i);
+  if (!match) return null;
+  if (match[1] === 'Mt') return 'Mt';
+  return match[1].toLowerCase() === 'kt' ? 'kt' : 't';
+};
+
+// Reads a unit name ("t", "kt", "Mt", "(kt)", "tonnes"), null if unknown
+export const parseMassUnit = (raw: unknown): MassUnit | null => {
+  const text = String(raw ?? '').trim().replace(/^\((.*)\)$/, '$1').trim();
+  if (text === 'Mt') return 'Mt';
+  const lower = text.toLowerCase();
+  if (lower === 'kt' || lower === 'kilotonnes' || lower === 'kilotons') return 'kt';
+  if (lower === 't' || lower === 'mt' || lower === 'tonnes' || lower === 'tons') return 't';
+  return null;
+};
+
+// Mapped columns keep the unit of their workbook header: a "Metal-IM (t)"
+// header renamed to "import-metal" is still read in tonnes
+export const getMappedUnits = (mapping: ColumnMapping | null | undefined): Record<string, MassUnit> => {
+  const units: Record<string, MassUnit> = {};
+  Object.entries(mapping || {}).forEach(([column, header]) => {
+    const unit = parseUnitSuffix(header);
+    if (unit) units[column] = unit;
+  });
+  return units;
+};
+
+// Override first, then the column's own suffix, then the default. Uncertainty
+// columns (_min, _max, _sd) follow the flow column they belong to.
+export const getColumnUnit = (column: string, units: DataUnits): MassUnit => {
+  const base = getRangeBase(column);
+  const flowColumn = base !== null && !units.columns[column] ? base : column;
+  return units.columns[flowColumn] || parseUnitSuffix(flowColumn) || units.default;
+};
+
+export const toKt = (value: number, unit: MassUnit): number => value * KT_PER_UNIT[unit];
+
+// Copy of a data row with every numeric column in kt
+export const normalizeRowUnits = (row: NdDataRow, units: DataUnits): NdDataRow => {
+  const out: NdDataRow = { ...row };
+  Object.keys(row).forEach(column => {
+    if (column === 'year') return;
+    const unit = getColumnUnit(column, units);
+    const num = Number(row[column]);
+    if (unit !== 'kt' && row[column] !== '' && Number.isFinite(num)) out[column] = toKt(num, unit);
+  });
+  return out;
+};
+
+// --- Display ---
+
+export type UnitSettings = Pick<VisualizationSettings, 'unit' | 'massBasis' | 'contentShares'>;
+
+// "kt" for Nd content, "kt product" for product mass
+export const getUnitLabel = (settings: UnitSettings): string =>
+  settings.massBasis === 'product' ? `${settings.unit} product` : settings.unit;
+
+// kt -> display unit, without the basis (e.g. for node totals and balances)
+export const fromKt = (value: number, unit: MassUnit): number => value / KT_PER_UNIT[unit];
+
+// Values are printed to 0.1 kt (100 t) and link labels start at 0.01 kt,
+// whatever the display unit
+const DISPLAY_DIGITS: Record<MassUnit, number> = { t: 0, kt: 1, Mt: 4 };
+const MIN_LABEL_KT = 0.01;
+
+// Decimals for values in `unit`; `extra` adds precision (e.g. for balance gaps)
+export const getDisplayDigits = (unit: MassUnit, extra: number = 0): number => DISPLAY_DIGITS[unit] + extra;
+
+export const formatMass = (value: number, unit: MassUnit, extra: number = 0): string =>
+  value.toFixed(getDisplayDigits(unit, extra));
+
+// Smallest value (in `unit`) that gets a link label or counts as a change
+export const getMinLabelValue = (unit: MassUnit): number => fromKt(MIN_LABEL_KT, unit);
+
+// Nd share of the product a link carries: the source stage's product, or the
+// target's for imports (an import of magnets carries magnets)
+const getLinkShare = (link: SankeyLink, nodes: SankeyNode[], shares: Record<string, number>): number => {
+  const sId = resolveNodeId(link.source, nodes);
+  const tId = resolveNodeId(link.target, nodes);
+  const source = nodes.find(n => n.id === sId);
+  const id = source?.category === 'import' ? tId : sId;
+  const share = id ? shares[id] : undefined;
+  return share && share > 0 ? share : 1;
+};
+
+// Graph in the display unit and basis, with values and ranges scaled per
+// link; the kt/Nd-content default returns the graph as it is.
+export const convertGraphUnits = (graph: GraphData, settings: UnitSettings): GraphData => {
+  const isProduct = settings.massBasis === 'product';
+  if (settings.unit === 'kt' && !isProduct) return graph;
+
+  const links = graph.links.map(l => {
+    const factor = fromKt(1, settings.unit) / (isProduct ? getLinkShare(l, graph.nodes, settings.contentShares) : 1);
+    return {
+      ...l,
+      value: l.value * factor,
+      ...(l.realValue !== undefined && { realValue: l.realValue * factor }),
+      ...(l.range && { range: {
+        min: l.range.min * factor,
+        max: l.range.max * factor,
+        ...(l.range.sd !== undefined && { sd: l.range.sd * factor })
+      } })
+    };
+  });
+  return { nodes: graph.nodes, links };
+};